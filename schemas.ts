@@ -23,7 +23,9 @@ export const ReaderResponseSchema = z.object({
     title: z.string(),
     description: z.string().optional(),
     url: z.string(),
-    content: z.string(),
+    content: z.string().default(''), // absent for Screenshot/Pageshot
+    screenshotUrl: z.string().optional(),
+    pageshotUrl: z.string().optional(),
     images: z.record(z.string()).optional(),
     links: z.record(z.string()).optional(),
     usage: z.object({
@@ -43,7 +45,9 @@ export const ReadWebPageSchema = z.object({
 
 export const SearchWebSchema = z.object({
   query: z.string(),
-  count: z.number().optional().default(5),
+  count: z.number().int().min(1).max(20).optional().default(5),
+  page: z.number().int().min(1).optional().default(1),
+  site: z.string().optional(),
   retain_images: z.enum(['none', 'all']).optional().default('none'),
   with_generated_alt: z.boolean().optional().default(true),
   return_format: z.enum(['markdown', 'text', 'html']).optional().default('markdown')
@@ -67,7 +71,8 @@ export const SearchResponseSchema = z.object({
 
 export const GroundingSchema = z.object({
   statement: z.string(),
-  deepdive: z.boolean().optional().default(false)
+  deepdive: z.boolean().optional().default(false),
+  references: z.array(z.string()).optional()
 });
 
 export const GroundingReferenceSchema = z.object({
@@ -83,11 +88,30 @@ export const GroundingResponseSchema = z.object({
     factuality: z.number(),
     result: z.boolean(),
     reason: z.string(),
-    references: z.array(GroundingReferenceSchema)
+    references: z.array(GroundingReferenceSchema),
+    usage: z.object({
+      tokens: z.number()
+    }).optional()
   })
 });
 
 // Embedding schemas
+export const EmbeddingTaskSchema = z.enum([
+  'retrieval.query',
+  'retrieval.passage',
+  'separation',
+  'classification',
+  'text-matching'
+]);
+
+export const EmbeddingOptionsSchema = z.object({
+  model: z.string().optional().default('jina-embeddings-v3'),
+  task: EmbeddingTaskSchema.optional(),
+  dimensions: z.number().int().min(32).max(1024).optional(),
+  normalized: z.boolean().optional(),
+  late_chunking: z.boolean().optional()
+});
+
 export const EmbeddingResponseSchema = z.union([
   z.object({
     data: z.array(
@@ -111,11 +135,48 @@ export const EmbeddingResponseSchema = z.union([
   })
 ]);
 
+// Segmenter schemas
+export const SegmenterResponseSchema = z.object({
+  num_tokens: z.number(),
+  tokenizer: z.string().optional(),
+  usage: z
+    .object({
+      tokens: z.number().optional()
+    })
+    .optional()
+});
+
+// Reranker schemas
+export const RerankResponseSchema = z.object({
+  model: z.string().optional(),
+  usage: z
+    .object({
+      total_tokens: z.number().optional()
+    })
+    .optional(),
+  results: z.array(
+    z.object({
+      index: z.number(),
+      relevance_score: z.number(),
+      document: z
+        .object({
+          text: z.string()
+        })
+        .optional()
+    })
+  )
+});
+
+export type EmbeddingOptions = z.input<typeof EmbeddingOptionsSchema>;
 export type EmbeddingResponse = z.infer<typeof EmbeddingResponseSchema>;
+export type SegmenterResponse = z.infer<typeof SegmenterResponseSchema>;
+export type RerankResponse = z.infer<typeof RerankResponseSchema>;
 
+export type ReadWebPageRequest = z.infer<typeof ReadWebPageSchema>;
 export type ReaderRequest = z.infer<typeof ReaderRequestSchema>;
 export type ReaderResponse = z.infer<typeof ReaderResponseSchema>;
 export type SearchWebRequest = z.infer<typeof SearchWebSchema>;
 export type SearchResponse = z.infer<typeof SearchResponseSchema>;
 export type GroundingRequest = z.infer<typeof GroundingSchema>;
+export type GroundingReference = z.infer<typeof GroundingReferenceSchema>;
 export type GroundingResponse = z.infer<typeof GroundingResponseSchema>;
@@ -0,0 +1,274 @@
+/**
+ * Bearer authentication for the HTTP transports: a static token list, OAuth
+ * access tokens checked by token introspection (RFC 7662) per the MCP
+ * authorization spec, or both.
+ */
+import {
+  InvalidTokenError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import {
+  getOAuthProtectedResourceMetadataUrl,
+  mcpAuthMetadataRouter,
+} from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  OAuthMetadata,
+  OAuthMetadataSchema,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import express, { RequestHandler } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
+import fetch from "node-fetch";
+import { AuthConfig, OAuthConfig } from "./config.js";
+
+// Static tokens never expire, but the bearer middleware requires an expiry
+const STATIC_TOKEN_LIFETIME_S = 60 * 60;
+
+// How long an introspection result is reused before asking again
+const INTROSPECTION_CACHE_MS = 60_000;
+
+// Introspection results kept at once; the least recently used go first
+const INTROSPECTION_CACHE_ENTRIES = 1000;
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Accepts a fixed list of tokens, compared in constant time. They are granted
+ * `scopes`, so they pass the same scope check as OAuth tokens.
+ */
+export class StaticTokenVerifier implements OAuthTokenVerifier {
+  private digests: Buffer[];
+
+  constructor(
+    tokens: string[],
+    private scopes: string[] = []
+  ) {
+    this.digests = tokens.map(digest);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const candidate = digest(token);
+    // Compare against every token so timing does not reveal which one matched
+    let index = -1;
+    this.digests.forEach((known, i) => {
+      if (timingSafeEqual(known, candidate) && index < 0) index = i;
+    });
+    if (index < 0) throw new InvalidTokenError("Invalid access token");
+    return {
+      token,
+      clientId: `static-${index + 1}`,
+      scopes: this.scopes,
+      expiresAt: Math.floor(Date.now() / 1000) + STATIC_TOKEN_LIFETIME_S,
+    };
+  }
+}
+
+type IntrospectionResponse = {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  exp?: number;
+  aud?: string | string[];
+};
+
+/**
+ * Checks OAuth access tokens with the authorization server's introspection
+ * endpoint. Tokens issued for another resource are rejected when the server
+ * reports an audience. Accepted tokens are cached briefly in an LRU; rejected
+ * ones are not, so a token activated later is not refused from the cache.
+ */
+export class IntrospectionTokenVerifier implements OAuthTokenVerifier {
+  // In LRU order, least recently used first
+  private cache = new Map<string, { info: AuthInfo; until: number }>();
+
+  constructor(
+    private introspectionUrl: string,
+    private resource: string,
+    private credentials?: { clientId: string; clientSecret: string },
+    private maxCacheEntries = INTROSPECTION_CACHE_ENTRIES
+  ) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const now = Date.now();
+    const cached = this.cache.get(token);
+    if (cached) {
+      this.cache.delete(token);
+      if (cached.until > now) {
+        this.cache.set(token, cached);
+        return cached.info;
+      }
+    }
+
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+    if (this.credentials) {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${encodeURIComponent(this.credentials.clientId)}:${encodeURIComponent(
+          this.credentials.clientSecret
+        )}`
+      ).toString("base64")}`;
+    }
+
+    let body: IntrospectionResponse;
+    try {
+      const response = await fetch(this.introspectionUrl, {
+        method: "POST",
+        headers,
+        body: new URLSearchParams({ token }).toString(),
+      });
+      if (!response.ok) {
+        throw new Error(`introspection returned ${response.status}`);
+      }
+      body = (await response.json()) as IntrospectionResponse;
+    } catch (error: any) {
+      throw new ServerError(`Token introspection failed: ${error.message}`);
+    }
+
+    if (!body.active) throw new InvalidTokenError("Token is not active");
+    const audiences =
+      body.aud === undefined ? [] : ([] as string[]).concat(body.aud);
+    if (audiences.length > 0 && !audiences.includes(this.resource)) {
+      throw new InvalidTokenError("Token was not issued for this server");
+    }
+
+    const info: AuthInfo = {
+      token,
+      clientId: body.client_id ?? "unknown",
+      scopes: body.scope ? body.scope.split(" ").filter(Boolean) : [],
+      expiresAt: body.exp,
+    };
+    const expiresAtMs = body.exp !== undefined ? body.exp * 1000 : now;
+    const until = Math.min(now + INTROSPECTION_CACHE_MS, expiresAtMs);
+    if (until > now) this.remember(token, { info, until }, now);
+    return info;
+  }
+
+  /** Cache a result, evicting expired and then least recently used entries. */
+  private remember(
+    token: string,
+    entry: { info: AuthInfo; until: number },
+    now: number
+  ): void {
+    this.cache.set(token, entry);
+    if (this.cache.size <= this.maxCacheEntries) return;
+    for (const [key, { until }] of this.cache) {
+      if (until <= now) this.cache.delete(key);
+    }
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= this.maxCacheEntries) break;
+      this.cache.delete(key);
+    }
+  }
+}
+
+/** Tries each verifier in turn, accepting the first that accepts the token. */
+class AnyTokenVerifier implements OAuthTokenVerifier {
+  constructor(private verifiers: OAuthTokenVerifier[]) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    let failure: unknown;
+    for (const verifier of this.verifiers) {
+      try {
+        return await verifier.verifyAccessToken(token);
+      } catch (error) {
+        failure = error;
+      }
+    }
+    throw failure;
+  }
+}
+
+/** Fetch the authorization server metadata (RFC 8414, or OpenID discovery). */
+export async function discoverOAuthMetadata(
+  issuer: string
+): Promise<OAuthMetadata> {
+  const base = issuer.replace(/\/+$/, "");
+  const { pathname, origin } = new URL(base);
+  const candidates = [
+    `${origin}/.well-known/oauth-authorization-server${
+      pathname === "/" ? "" : pathname
+    }`,
+    `${base}/.well-known/openid-configuration`,
+  ];
+  for (const candidate of candidates) {
+    const response = await fetch(candidate, {
+      headers: { Accept: "application/json" },
+    });
+    if (response.ok) {
+      return OAuthMetadataSchema.parse(await response.json());
+    }
+  }
+  throw new Error(`No authorization server metadata found for ${issuer}`);
+}
+
+export type HttpAuth = {
+  /** Rejects requests without a valid bearer token. */
+  middleware: RequestHandler;
+  /** Serves the OAuth protected resource metadata, when OAuth is configured. */
+  metadata?: express.Router;
+};
+
+/**
+ * Set up bearer authentication for the MCP endpoint at `endpointUrl`, or
+ * return undefined when no tokens or authorization server are configured.
+ */
+export async function createHttpAuth(
+  config: AuthConfig,
+  endpointUrl: URL
+): Promise<HttpAuth | undefined> {
+  const verifiers: OAuthTokenVerifier[] = [];
+  if (config.tokens.length > 0) {
+    verifiers.push(
+      new StaticTokenVerifier(config.tokens, config.oauth?.scopes ?? [])
+    );
+  }
+  if (!config.oauth) {
+    if (verifiers.length === 0) return undefined;
+    return { middleware: requireBearerAuth({ verifier: verifiers[0] }) };
+  }
+
+  const oauthMetadata = await discoverOAuthMetadata(config.oauth.issuer);
+  verifiers.push(oauthVerifier(config.oauth, oauthMetadata, endpointUrl));
+  return {
+    middleware: requireBearerAuth({
+      verifier:
+        verifiers.length === 1 ? verifiers[0] : new AnyTokenVerifier(verifiers),
+      requiredScopes: config.oauth.scopes,
+      resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(endpointUrl),
+    }),
+    metadata: mcpAuthMetadataRouter({
+      oauthMetadata,
+      resourceServerUrl: endpointUrl,
+      scopesSupported:
+        config.oauth.scopes.length > 0 ? config.oauth.scopes : undefined,
+      resourceName: "Jina AI MCP Server",
+    }),
+  };
+}
+
+function oauthVerifier(
+  oauth: OAuthConfig,
+  metadata: OAuthMetadata,
+  endpointUrl: URL
+): IntrospectionTokenVerifier {
+  const introspectionUrl =
+    oauth.introspectionUrl ?? metadata.introspection_endpoint;
+  if (!introspectionUrl) {
+    throw new Error(
+      `${oauth.issuer} does not advertise an introspection endpoint; set MCP_OAUTH_INTROSPECTION_URL.`
+    );
+  }
+  return new IntrospectionTokenVerifier(
+    introspectionUrl,
+    endpointUrl.href,
+    oauth.clientId && oauth.clientSecret
+      ? { clientId: oauth.clientId, clientSecret: oauth.clientSecret }
+      : undefined
+  );
+}
@@ -0,0 +1,219 @@
+/**
+ * Read several pages in one call: URLs are normalized and deduplicated, pages
+ * are fetched a few at a time, and their chunks are ranked against a single
+ * query, per page or across all pages.
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ReadWebPageRequest } from "../schemas.js";
+import { ServerContext, chunkPage, indexPage, trackPage } from "./context.js";
+import {
+  Evidence,
+  ResearchSource,
+  ToolExtra,
+  rankEvidence,
+} from "./deepResearch.js";
+import { embedTexts } from "./embeddings.js";
+import { CancelledError, throwIfCancelled } from "./errors.js";
+import {
+  HybridOptions,
+  RankingMethod,
+  ScoredChunk,
+  once,
+  selectTopChunks,
+} from "./ranking.js";
+import { pageUri } from "./resources.js";
+import { RateLimiter } from "./resilience.js";
+import { normalizeUrl } from "./urlPolicy.js";
+
+// Pages read at the same time by one batch
+export const BATCH_READ_CONCURRENCY = 3;
+
+export type BatchScope = "page" | "global";
+
+export type BatchPage = ResearchSource & {
+  /** Best chunks of this page, when ranking per page. */
+  top: ScoredChunk[];
+};
+
+export type BatchReadResult = {
+  scope: BatchScope;
+  pages: BatchPage[];
+  /** Best chunks across all pages, when ranking globally. */
+  evidence: Evidence[];
+  /** URLs given more than once, after normalization. */
+  duplicates: string[];
+  failures: { url: string; error: string }[];
+};
+
+/** Split URLs into unique normalized ones, duplicates and invalid ones. */
+export function dedupeUrls(urls: string[]): {
+  unique: string[];
+  duplicates: string[];
+  invalid: { url: string; error: string }[];
+} {
+  const unique = new Set<string>();
+  const duplicates: string[] = [];
+  const invalid: { url: string; error: string }[] = [];
+  for (const url of urls) {
+    let normalized: string;
+    try {
+      normalized = normalizeUrl(url);
+    } catch (error: any) {
+      invalid.push({ url, error: error.message });
+      continue;
+    }
+    if (unique.has(normalized)) {
+      duplicates.push(url);
+    } else {
+      unique.add(normalized);
+    }
+  }
+  return { unique: [...unique], duplicates, invalid };
+}
+
+/**
+ * Read every URL, a few at a time, and rank their chunks against `query`.
+ * The query is embedded at most once for the whole batch. Pages that cannot
+ * be read are reported as failures without failing the others.
+ */
+export async function readPages(
+  context: ServerContext,
+  server: McpServer,
+  urls: string[],
+  query: string,
+  options: {
+    scope: BatchScope;
+    topK: number;
+    ranking: RankingMethod;
+    hybrid?: HybridOptions;
+    read?: Omit<ReadWebPageRequest, "url" | "format">;
+  },
+  extra: ToolExtra
+): Promise<BatchReadResult> {
+  const { client } = context;
+  const { unique, duplicates, invalid } = dedupeUrls(urls);
+  const getQueryEmbedding = once(
+    async () => (await embedTexts(client, [query]))[0]
+  );
+  const limiter = new RateLimiter(BATCH_READ_CONCURRENCY);
+
+  const read = await Promise.all(
+    unique.map((url) =>
+      limiter.run(
+        async (): Promise<BatchPage | { url: string; error: string }> => {
+          throwIfCancelled(extra.signal);
+          try {
+            const response = await client.read(url, options.read);
+            const title = response.data.title || url;
+            const pageUrl = response.data.url || url;
+            const content = response.data.content || "";
+            trackPage(
+              context,
+              server,
+              extra.sessionId,
+              { url: pageUrl, title },
+              content
+            );
+            const chunks = await chunkPage(context, content);
+            indexPage(context, extra.sessionId, {
+              url: pageUrl,
+              title,
+              source: "read-webpage",
+              chunks,
+            });
+            const top =
+              options.scope === "page"
+                ? await selectTopChunks(
+                    client,
+                    query,
+                    chunks,
+                    options.ranking,
+                    getQueryEmbedding,
+                    options.topK,
+                    options.hybrid
+                  )
+                : [];
+            return { url: pageUrl, title, chunks, top };
+          } catch (error: any) {
+            if (error instanceof CancelledError) throw error;
+            return { url, error: error.message };
+          }
+        }
+      )
+    )
+  );
+  const pages = read.filter((page): page is BatchPage => "chunks" in page);
+  const failures = [
+    ...invalid,
+    ...read.filter(
+      (page): page is { url: string; error: string } => "error" in page
+    ),
+  ];
+
+  throwIfCancelled(extra.signal);
+  const evidence =
+    options.scope === "global"
+      ? await rankEvidence(
+          client,
+          query,
+          pages,
+          options.ranking,
+          getQueryEmbedding,
+          options.topK,
+          options.hybrid
+        )
+      : [];
+  return { scope: options.scope, pages, evidence, duplicates, failures };
+}
+
+/** Render a batch read: each page with its best chunks, or the best chunks overall. */
+export function formatBatchRead(
+  query: string,
+  urlCount: number,
+  result: BatchReadResult
+): string {
+  const { scope, pages, evidence, duplicates, failures } = result;
+  const skipped =
+    duplicates.length > 0 ? ` (${duplicates.length} duplicates skipped)` : "";
+  const lines = [
+    `Query: ${query}`,
+    `Read ${pages.length} of ${urlCount} URLs${skipped}.`,
+  ];
+
+  if (scope === "global") {
+    // Passages cite the page list below
+    const citations = new Map<ResearchSource, number>(
+      pages.map((page, i) => [page, i + 1])
+    );
+    lines.push("", "Relevant Content:");
+    if (evidence.length === 0) lines.push("No content extracted.", "");
+    for (const { source, chunk } of evidence) {
+      lines.push(`[${citations.get(source)}] ${chunk}`, "");
+    }
+    lines.push("Pages:");
+    pages.forEach((page, i) => {
+      lines.push(
+        `[${i + 1}] ${page.title} - ${page.url} (${pageUri(page.url)})`
+      );
+    });
+  } else {
+    pages.forEach((page, i) => {
+      lines.push(
+        "",
+        `[${i + 1}] Title: ${page.title}`,
+        `URL: ${page.url}`,
+        `Full content: ${pageUri(page.url)}`,
+        "Relevant Content:",
+        page.top.map((s) => s.chunk).join("\n\n") || "No content extracted."
+      );
+    });
+  }
+
+  if (failures.length > 0) {
+    lines.push("", "URLs that could not be read:");
+    for (const { url, error } of failures) {
+      lines.push(`- ${url}: ${error}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,180 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./log.js";
+
+type CacheEntry = { expiresAt: number; value: unknown };
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  writes: number;
+};
+
+export interface ResponseCacheOptions {
+  /** Maximum number of entries kept in memory before evicting the least recently used. */
+  maxEntries: number;
+  /** Directory for the on-disk store. Entries are only kept in memory when unset. */
+  directory?: string;
+}
+
+/** Hash arbitrary JSON-serializable parts into a stable cache key. */
+export function cacheKey(...parts: unknown[]): string {
+  return createHash("sha256").update(stableStringify(parts)).digest("hex");
+}
+
+/** JSON.stringify with object keys sorted, so equal bodies produce equal keys. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Two-level response cache: an in-memory LRU in front of an optional on-disk
+ * store. Entries are grouped into namespaces (one per Jina endpoint) so that
+ * hit/miss statistics can be reported per endpoint.
+ */
+export class ResponseCache {
+  // Map iteration order is insertion order, so re-inserting on access keeps
+  // the least recently used entry first.
+  private memory = new Map<string, CacheEntry>();
+  private stats = new Map<string, CacheStats>();
+
+  constructor(private options: ResponseCacheOptions) {}
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const id = `${namespace}:${key}`;
+    const now = Date.now();
+
+    let entry = this.memory.get(id);
+    if (entry) {
+      this.memory.delete(id);
+      if (entry.expiresAt > now) {
+        this.memory.set(id, entry);
+      } else {
+        entry = undefined;
+      }
+    }
+
+    if (!entry && this.options.directory) {
+      entry = await this.readFromDisk(namespace, key);
+      if (entry && entry.expiresAt <= now) {
+        await rm(this.filePath(namespace, key), { force: true });
+        entry = undefined;
+      }
+      if (entry) this.remember(id, entry);
+    }
+
+    const stats = this.statsFor(namespace);
+    if (entry) {
+      stats.hits++;
+      return entry.value as T;
+    }
+    stats.misses++;
+    return undefined;
+  }
+
+  async set(
+    namespace: string,
+    key: string,
+    value: unknown,
+    ttlMs: number
+  ): Promise<void> {
+    if (ttlMs <= 0) return;
+    const entry: CacheEntry = { expiresAt: Date.now() + ttlMs, value };
+    this.remember(`${namespace}:${key}`, entry);
+    this.statsFor(namespace).writes++;
+
+    if (this.options.directory) {
+      try {
+        await this.writeToDisk(namespace, key, entry);
+      } catch (error: any) {
+        logger.warn("Failed to write cache entry to disk", { error });
+      }
+    }
+  }
+
+  /** Hit/miss counters per namespace plus the current in-memory size. */
+  getStats(): {
+    entries: number;
+    maxEntries: number;
+    directory?: string;
+    namespaces: Record<string, CacheStats>;
+  } {
+    return {
+      entries: this.memory.size,
+      maxEntries: this.options.maxEntries,
+      directory: this.options.directory,
+      namespaces: Object.fromEntries(
+        [...this.stats.entries()].map(([namespace, stats]) => [
+          namespace,
+          { ...stats },
+        ])
+      ),
+    };
+  }
+
+  private remember(id: string, entry: CacheEntry): void {
+    this.memory.delete(id);
+    this.memory.set(id, entry);
+    while (this.memory.size > this.options.maxEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) break;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private statsFor(namespace: string): CacheStats {
+    let stats = this.stats.get(namespace);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, writes: 0 };
+      this.stats.set(namespace, stats);
+    }
+    return stats;
+  }
+
+  private filePath(namespace: string, key: string): string {
+    return path.join(this.options.directory!, namespace, `${key}.json`);
+  }
+
+  private async readFromDisk(
+    namespace: string,
+    key: string
+  ): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(
+        await readFile(this.filePath(namespace, key), "utf8")
+      ) as CacheEntry;
+    } catch {
+      // Missing or corrupt entries are treated as misses
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(
+    namespace: string,
+    key: string,
+    entry: CacheEntry
+  ): Promise<void> {
+    const file = this.filePath(namespace, key);
+    await mkdir(path.dirname(file), { recursive: true });
+    // Write to a temporary file first so readers never see a partial entry
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(entry));
+    await rename(temp, file);
+  }
+}
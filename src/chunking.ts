@@ -0,0 +1,374 @@
+/**
+ * Markdown-aware chunking for Reader output. Headings, fenced code, tables
+ * and lists are kept intact where they fit, and every chunk is prefixed with
+ * the path of headings it belongs to.
+ */
+import { CancelledError } from "./errors.js";
+import { logger } from "./log.js";
+
+export type ChunkOptions = {
+  /** Target chunk size in tokens, excluding the heading prefix. */
+  targetTokens: number;
+  /** Tokens repeated from the end of the previous chunk of the same section. */
+  overlapTokens: number;
+  /** Correction factor applied to estimated token counts, e.g. from the Jina Segmenter. */
+  tokenScale?: number;
+};
+
+type BlockKind = "code" | "table" | "list" | "paragraph";
+
+type Block = {
+  kind: BlockKind;
+  text: string;
+  /** Headings enclosing the block, outermost first. */
+  headings: string[];
+};
+
+// CJK ideographs, kana and hangul are roughly one token per character
+const CJK =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Estimate the number of tokens in a text: about four characters per token
+ * for alphabetic scripts and one per character for CJK.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK)?.length ?? 0;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+}
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^\s{0,3}(=+|-+)\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TABLE_ROW = /^\s*\|/;
+
+/** Split Markdown into blocks, tracking the heading path of each. */
+export function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  const headings: string[] = [];
+  let paragraph: string[] = [];
+
+  const push = (kind: BlockKind, text: string) => {
+    if (text.trim() === "") return;
+    blocks.push({ kind, text, headings: headings.filter(Boolean) });
+  };
+  const flushParagraph = () => {
+    push("paragraph", paragraph.join("\n"));
+    paragraph = [];
+  };
+  const setHeading = (level: number, text: string) => {
+    headings.length = level - 1;
+    headings[level - 1] = text.trim();
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1];
+      const code = [line];
+      for (i++; i < lines.length; i++) {
+        code.push(lines[i]);
+        const closing = FENCE.exec(lines[i]);
+        if (
+          closing &&
+          closing[1][0] === marker[0] &&
+          closing[1].length >= marker.length &&
+          lines[i].trim() === closing[1]
+        ) {
+          break;
+        }
+      }
+      push("code", code.join("\n"));
+      continue;
+    }
+
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      flushParagraph();
+      setHeading(atx[1].length, atx[2]);
+      continue;
+    }
+
+    // Setext headings underline the line above with === or ---
+    const next = lines[i + 1];
+    if (
+      line.trim() !== "" &&
+      paragraph.length === 0 &&
+      !LIST_ITEM.test(line) &&
+      !TABLE_ROW.test(line) &&
+      next !== undefined &&
+      SETEXT_UNDERLINE.test(next)
+    ) {
+      setHeading(next.trim()[0] === "=" ? 1 : 2, line);
+      i++;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      flushParagraph();
+      const rows = [line];
+      while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) {
+        rows.push(lines[++i]);
+      }
+      push("table", rows.join("\n"));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flushParagraph();
+      const items = [line];
+      while (i + 1 < lines.length) {
+        const following = lines[i + 1];
+        // Items and their indented continuation lines belong to the list; a
+        // blank line only does if the list carries on after it.
+        if (LIST_ITEM.test(following) || /^\s+\S/.test(following)) {
+          items.push(lines[++i]);
+        } else if (
+          following.trim() === "" &&
+          i + 2 < lines.length &&
+          (LIST_ITEM.test(lines[i + 2]) || /^\s+\S/.test(lines[i + 2]))
+        ) {
+          items.push(lines[++i]);
+        } else {
+          break;
+        }
+      }
+      push("list", items.join("\n"));
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Greedily pack units into groups within the token budget. A single unit
+ * larger than the budget forms a group of its own.
+ */
+function pack(
+  units: string[],
+  budget: number,
+  count: (text: string) => number,
+  separator: string
+): string[] {
+  const groups: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const unit of units) {
+    const size = count(unit);
+    if (current.length > 0 && tokens + size > budget) {
+      groups.push(current.join(separator));
+      current = [];
+      tokens = 0;
+    }
+    current.push(unit);
+    tokens += size;
+  }
+  if (current.length > 0) groups.push(current.join(separator));
+  return groups;
+}
+
+/** Split text on whitespace into pieces within the budget. */
+function splitWords(
+  text: string,
+  budget: number,
+  count: (text: string) => number
+): string[] {
+  return pack(text.split(/\s+/).filter(Boolean), budget, count, " ");
+}
+
+/** Split a block that exceeds the budget along its natural boundaries. */
+function splitBlock(
+  block: Block,
+  budget: number,
+  count: (text: string) => number
+): string[] {
+  const lines = block.text.split("\n");
+  switch (block.kind) {
+    case "code": {
+      // Re-open and close the fence around every piece
+      const open = lines[0];
+      const hasClose = lines.length > 1 && FENCE.test(lines[lines.length - 1]);
+      const close = hasClose ? lines[lines.length - 1] : open.trim();
+      const body = lines.slice(1, hasClose ? -1 : undefined);
+      const overhead = count(open) + count(close);
+      return pack(body, budget - overhead, count, "\n").map(
+        (piece) => `${open}\n${piece}\n${close}`
+      );
+    }
+    case "table": {
+      // Repeat the header row (and its separator) above every piece
+      const hasSeparator =
+        lines.length > 1 && /^\s*\|?[\s:|-]+\|?\s*$/.test(lines[1]);
+      const header = lines.slice(0, hasSeparator ? 2 : 1).join("\n");
+      const rows = lines.slice(hasSeparator ? 2 : 1);
+      return pack(rows, budget - count(header), count, "\n").map(
+        (piece) => `${header}\n${piece}`
+      );
+    }
+    case "list":
+      return pack(lines, budget, count, "\n").flatMap((piece) =>
+        count(piece) > budget ? splitWords(piece, budget, count) : [piece]
+      );
+    case "paragraph": {
+      const sentences = block.text
+        .split(/(?<=[.!?])\s+/)
+        .filter((s) => s.trim() !== "");
+      return pack(sentences, budget, count, " ").flatMap((piece) =>
+        count(piece) > budget ? splitWords(piece, budget, count) : [piece]
+      );
+    }
+  }
+}
+
+/** Longest common prefix of two heading paths. */
+function commonPath(a: string[], b: string[]): string[] {
+  const path: string[] = [];
+  for (let i = 0; i < a.length && i < b.length && a[i] === b[i]; i++) {
+    path.push(a[i]);
+  }
+  return path;
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && commonPath(a, b).length === a.length;
+}
+
+/** The last words of a text, up to the given number of tokens. */
+function tail(
+  text: string,
+  tokens: number,
+  count: (text: string) => number
+): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const kept: string[] = [];
+  let size = 0;
+  for (let i = words.length - 1; i >= 0; i--) {
+    size += count(`${words[i]} `);
+    if (size > tokens) break;
+    kept.unshift(words[i]);
+  }
+  return kept.join(" ");
+}
+
+/**
+ * Split Markdown into chunks of about `targetTokens` tokens. Blocks are never
+ * cut unless they alone exceed the target, a new section starts a new chunk
+ * unless the current one is less than half full, and each chunk starts with
+ * its heading path (e.g. "Install > Linux").
+ */
+export function chunkMarkdown(
+  markdown: string,
+  options: ChunkOptions
+): string[] {
+  const scale = options.tokenScale ?? 1;
+  const count = (text: string) => estimateTokens(text) * scale;
+  const target = Math.max(1, options.targetTokens);
+
+  const chunks: string[] = [];
+  let parts: string[] = [];
+  let path: string[] = [];
+  let tokens = 0;
+  // Kind of block the last part came from
+  let lastKind: BlockKind | undefined;
+
+  const emit = () => {
+    if (parts.length === 0) return;
+    const body = parts.join("\n\n");
+    chunks.push(path.length > 0 ? `${path.join(" > ")}\n\n${body}` : body);
+  };
+
+  for (const block of parseBlocks(markdown)) {
+    const pieces =
+      count(block.text) > target
+        ? splitBlock(block, target, count)
+        : [block.text];
+
+    for (const [index, piece] of pieces.entries()) {
+      const size = count(piece);
+      const sectionChange =
+        !samePath(path, block.headings) && tokens >= target / 2;
+      if (parts.length > 0 && (tokens + size > target || sectionChange)) {
+        const previous = parts[parts.length - 1];
+        emit();
+        // Overlap only carries context within the same section, and only
+        // from prose: words cut from a code block or table, or put in front
+        // of the next piece of one, would break its structure
+        const overlap =
+          options.overlapTokens > 0 &&
+          samePath(path, block.headings) &&
+          (lastKind === "paragraph" || lastKind === "list") &&
+          !(index > 0 && (block.kind === "code" || block.kind === "table"))
+            ? tail(previous, options.overlapTokens, count)
+            : "";
+        parts = overlap ? [overlap] : [];
+        tokens = overlap ? count(overlap) : 0;
+        path = block.headings;
+      } else if (parts.length === 0) {
+        path = block.headings;
+      } else {
+        path = commonPath(path, block.headings);
+      }
+      parts.push(piece);
+      tokens += size;
+      lastKind = block.kind;
+    }
+  }
+  emit();
+  return chunks;
+}
+
+// Characters sent to the Segmenter to calibrate the token estimate
+const SEGMENTER_SAMPLE_CHARS = 20_000;
+
+/**
+ * Chunk page content. When `countTokens` is given (e.g. backed by the Jina
+ * Segmenter), a sample of the text is counted exactly and the estimate is
+ * scaled to match; if counting fails the estimate is used as is.
+ */
+export async function chunkContent(
+  text: string,
+  options: ChunkOptions,
+  countTokens?: (sample: string) => Promise<number>
+): Promise<string[]> {
+  const [chunks] = await chunkContents([text], options, countTokens);
+  return chunks;
+}
+
+/**
+ * Chunk several pages, such as the results of one search, calibrating the
+ * token estimate once on a sample drawn evenly from all of them so that
+ * `countTokens` is called at most once.
+ */
+export async function chunkContents(
+  texts: string[],
+  options: ChunkOptions,
+  countTokens?: (sample: string) => Promise<number>
+): Promise<string[][]> {
+  let tokenScale = 1;
+  const sampled = texts.filter((text) => text.trim() !== "");
+  if (countTokens && sampled.length > 0) {
+    const share = Math.ceil(SEGMENTER_SAMPLE_CHARS / sampled.length);
+    const sample = sampled.map((text) => text.substring(0, share)).join("\n\n");
+    try {
+      const count = await countTokens(sample);
+      const estimate = estimateTokens(sample);
+      if (count > 0 && estimate > 0) tokenScale = count / estimate;
+    } catch (error: any) {
+      if (error instanceof CancelledError) throw error;
+      logger.warn("Segmenter failed, using estimated token counts", { error });
+    }
+  }
+  return texts.map((text) => chunkMarkdown(text, { ...options, tokenScale }));
+}
@@ -0,0 +1,318 @@
+/**
+ * Server configuration read from environment variables. Invalid values throw
+ * a ConfigError so the entry point can report them and exit.
+ */
+import { ChunkOptions } from "./chunking.js";
+import { CacheNamespace, JinaUrls, ResilienceOptions } from "./jinaClient.js";
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogOptions } from "./log.js";
+import {
+  FusionMethodSchema,
+  HybridOptions,
+  RankingMethod,
+  RankingMethodSchema,
+} from "./ranking.js";
+import { SessionOptions } from "./sessions.js";
+import { UrlPolicyOptions } from "./urlPolicy.js";
+import { UsageBudgets } from "./usage.js";
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// stdio: single client over stdin/stdout (Claude Desktop, Smithery)
+// sse: legacy HTTP+SSE transport on /sse and /messages
+// http: Streamable HTTP transport on a single /mcp endpoint
+export const TRANSPORT_MODES = ["stdio", "sse", "http"] as const;
+export type TransportMode = (typeof TRANSPORT_MODES)[number];
+
+/** Read the transport from `--transport <mode>`, `--transport=<mode>` or MCP_TRANSPORT. */
+export function parseTransportMode(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): TransportMode {
+  let value = env.MCP_TRANSPORT;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--transport") {
+      value = argv[i + 1];
+    } else if (argv[i].startsWith("--transport=")) {
+      value = argv[i].substring("--transport=".length);
+    }
+  }
+  if (value === undefined || value === "") return "stdio";
+  if (!(TRANSPORT_MODES as readonly string[]).includes(value)) {
+    throw new ConfigError(
+      `unknown transport "${value}". Expected one of: ${TRANSPORT_MODES.join(", ")}.`
+    );
+  }
+  return value as TransportMode;
+}
+
+// off: ignore client keys; allow: use a client's key when it sends one;
+// require: every HTTP session must bring its own key
+export const CLIENT_KEY_MODES = ["off", "allow", "require"] as const;
+export type ClientKeyMode = (typeof CLIENT_KEY_MODES)[number];
+
+export type OAuthConfig = {
+  /** Issuer URL of the authorization server. */
+  issuer: string;
+  /** Token introspection endpoint; discovered from the issuer when unset. */
+  introspectionUrl: string | undefined;
+  /** Credentials this server authenticates to the introspection endpoint with. */
+  clientId: string | undefined;
+  clientSecret: string | undefined;
+  /** Scopes every access token must carry. */
+  scopes: string[];
+};
+
+export type AuthConfig = {
+  /** Static bearer tokens accepted on the HTTP endpoints. */
+  tokens: string[];
+  oauth: OAuthConfig | undefined;
+  /** Public base URL of this server, advertised in OAuth resource metadata. */
+  serverUrl: string | undefined;
+};
+
+export type ServerConfig = {
+  /**
+   * Jina API key; only optional when `mock` is set or every HTTP session
+   * brings its own key.
+   */
+  apiKey: string | undefined;
+  /** Whether HTTP clients may send their own Jina key. */
+  clientKeys: ClientKeyMode;
+  /** Bearer authentication for the HTTP transports. */
+  auth: AuthConfig;
+  /** Serve every endpoint from the bundled mock server. */
+  mock: boolean;
+  /** Endpoint URLs overriding the hosted APIs (or the mock). */
+  urls: Partial<JinaUrls>;
+  /** URLs Jina may be asked to read. */
+  urlPolicy: UrlPolicyOptions;
+  /** Default chunk ranking method, overridable per call. */
+  rankingMethod: RankingMethod;
+  /** Default fusion and diversity of hybrid ranking, overridable per call. */
+  hybridRanking: HybridOptions;
+  port: number;
+  /** Limits on HTTP sessions, and how long shutdown waits for requests. */
+  sessions: SessionOptions & { shutdownTimeoutMs: number };
+  /** Whether the readiness endpoint also checks that Jina is reachable. */
+  readinessProbe: boolean;
+  /** Whether the HTTP transports serve Prometheus metrics on `/metrics`. */
+  metrics: boolean;
+  logging: LogOptions;
+  cache: {
+    enabled: boolean;
+    maxEntries: number;
+    directory: string | undefined;
+    ttlMs: Record<CacheNamespace, number>;
+  };
+  resilience: ResilienceOptions;
+  budgets: UsageBudgets;
+  notebook: { enabled: boolean; directory: string | undefined };
+  chunking: ChunkOptions & { segmenter: boolean };
+};
+
+const URL_VARIABLES: Record<keyof JinaUrls, string> = {
+  search: "JINA_SEARCH_URL",
+  reader: "JINA_READER_URL",
+  grounding: "JINA_GROUNDING_URL",
+  embeddings: "JINA_EMBEDDING_URL",
+  rerank: "JINA_RERANK_URL",
+  segmenter: "JINA_SEGMENTER_URL",
+};
+
+/** Split a comma-separated list, dropping empty entries. */
+function list(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+/** Read an optional absolute http(s) URL. */
+function url(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const value = env[name];
+  if (value === undefined || value === "") return undefined;
+  try {
+    const parsed = new URL(value);
+    if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+      return value;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ConfigError(`${name} must be an http(s) URL.`);
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  /** Read a non-negative number, falling back on absence. */
+  const number = (name: string, fallback: number): number => {
+    const value = env[name];
+    if (value === undefined || value === "") return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new ConfigError(`${name} must be a non-negative number.`);
+    }
+    return parsed;
+  };
+  /** Read an optional positive token budget. */
+  const budget = (name: string): number | undefined => {
+    const value = number(name, 0);
+    return value > 0 ? value : undefined;
+  };
+
+  const ranking = env.JINA_RANKING_METHOD;
+  let rankingMethod: RankingMethod = "rerank";
+  if (ranking !== undefined && ranking !== "") {
+    const parsed = RankingMethodSchema.safeParse(ranking);
+    if (!parsed.success) {
+      throw new ConfigError(
+        `unknown JINA_RANKING_METHOD "${ranking}". Expected one of: ${RankingMethodSchema.options.join(", ")}.`
+      );
+    }
+    rankingMethod = parsed.data;
+  }
+
+  const fusion = env.JINA_RANKING_FUSION || "rrf";
+  if (!(FusionMethodSchema.options as readonly string[]).includes(fusion)) {
+    throw new ConfigError(
+      `unknown JINA_RANKING_FUSION "${fusion}". Expected one of: ${FusionMethodSchema.options.join(", ")}.`
+    );
+  }
+  /** Read a weight between 0 and 1. */
+  const weight = (name: string, fallback: number): number => {
+    const value = number(name, fallback);
+    if (value > 1) throw new ConfigError(`${name} must be between 0 and 1.`);
+    return value;
+  };
+
+  const urls: Partial<JinaUrls> = {};
+  for (const [endpoint, name] of Object.entries(URL_VARIABLES)) {
+    if (env[name]) urls[endpoint as keyof JinaUrls] = env[name];
+  }
+
+  const clientKeys = env.JINA_CLIENT_KEYS || "allow";
+  if (!(CLIENT_KEY_MODES as readonly string[]).includes(clientKeys)) {
+    throw new ConfigError(
+      `unknown JINA_CLIENT_KEYS "${clientKeys}". Expected one of: ${CLIENT_KEY_MODES.join(", ")}.`
+    );
+  }
+
+  const logLevel = env.LOG_LEVEL || "info";
+  if (!(LOG_LEVELS as readonly string[]).includes(logLevel)) {
+    throw new ConfigError(
+      `unknown LOG_LEVEL "${logLevel}". Expected one of: ${LOG_LEVELS.join(", ")}.`
+    );
+  }
+  const logFormat = env.LOG_FORMAT || "json";
+  if (!(LOG_FORMATS as readonly string[]).includes(logFormat)) {
+    throw new ConfigError(
+      `unknown LOG_FORMAT "${logFormat}". Expected one of: ${LOG_FORMATS.join(", ")}.`
+    );
+  }
+
+  const issuer = url(env, "MCP_OAUTH_ISSUER");
+  const oauth: OAuthConfig | undefined = issuer
+    ? {
+        issuer,
+        introspectionUrl: url(env, "MCP_OAUTH_INTROSPECTION_URL"),
+        clientId: env.MCP_OAUTH_CLIENT_ID || undefined,
+        clientSecret: env.MCP_OAUTH_CLIENT_SECRET || undefined,
+        scopes: list(env.MCP_OAUTH_SCOPES),
+      }
+    : undefined;
+
+  const embeddingsTtl = number("JINA_CACHE_TTL_EMBEDDINGS", 7 * 24 * 60 * 60);
+
+  const mock = env.JINA_MOCK === "on";
+
+  return {
+    // The mock accepts any bearer token
+    apiKey: env.JINA_API_KEY || (mock ? "mock" : undefined),
+    mock,
+    clientKeys: clientKeys as ClientKeyMode,
+    auth: {
+      tokens: list(env.MCP_AUTH_TOKENS),
+      oauth,
+      serverUrl: url(env, "MCP_SERVER_URL"),
+    },
+    urls,
+    urlPolicy: {
+      allow: list(env.JINA_URL_ALLOWLIST),
+      deny: list(env.JINA_URL_DENYLIST),
+      // Set JINA_BLOCK_PRIVATE_URLS=off to read loopback and private addresses
+      blockPrivate: env.JINA_BLOCK_PRIVATE_URLS !== "off",
+      // Set JINA_RESOLVE_URL_HOSTS=on to also refuse hostnames resolving to them
+      resolveHosts: env.JINA_RESOLVE_URL_HOSTS === "on",
+    },
+    rankingMethod,
+    hybridRanking: {
+      fusion: fusion as HybridOptions["fusion"],
+      semanticWeight: weight("JINA_RANKING_SEMANTIC_WEIGHT", 0.5),
+      diversity: weight("JINA_RANKING_DIVERSITY", 0.3),
+    },
+    port: number("PORT", 3001),
+    sessions: {
+      maxSessions: number("MCP_MAX_SESSIONS", 100),
+      idleTimeoutMs: number("MCP_SESSION_IDLE_TIMEOUT_MS", 30 * 60 * 1000),
+      shutdownTimeoutMs: number("MCP_SHUTDOWN_TIMEOUT_MS", 30_000),
+    },
+    // Set MCP_READINESS_PROBE=on to fail /readyz while Jina is unreachable
+    readinessProbe: env.MCP_READINESS_PROBE === "on",
+    // Set MCP_METRICS=off to stop serving /metrics
+    metrics: env.MCP_METRICS !== "off",
+    logging: {
+      level: logLevel as LogOptions["level"],
+      format: logFormat as LogFormat,
+      // Set LOG_USER_CONTENT=on to log queries and other client text verbatim
+      userContent: env.LOG_USER_CONTENT === "on",
+    },
+    cache: {
+      // Set JINA_CACHE=off to disable caching entirely
+      enabled: env.JINA_CACHE !== "off",
+      maxEntries: number("JINA_CACHE_MAX_ENTRIES", 1000),
+      directory: env.JINA_CACHE_DIR || undefined,
+      // Time-to-live per namespace, configured in seconds
+      ttlMs: {
+        reader: number("JINA_CACHE_TTL_READER", 60 * 60) * 1000,
+        search: number("JINA_CACHE_TTL_SEARCH", 15 * 60) * 1000,
+        grounding: number("JINA_CACHE_TTL_GROUNDING", 60 * 60) * 1000,
+        embeddings: embeddingsTtl * 1000,
+        rerank: number("JINA_CACHE_TTL_RERANK", 24 * 60 * 60) * 1000,
+        segmenter: number("JINA_CACHE_TTL_SEGMENTER", 24 * 60 * 60) * 1000,
+        "embedding-text": embeddingsTtl * 1000,
+      },
+    },
+    resilience: {
+      // Total attempts per request, including the first one
+      maxAttempts: number("JINA_MAX_RETRIES", 3) + 1,
+      backoff: {
+        baseDelayMs: number("JINA_RETRY_BASE_DELAY_MS", 500),
+        maxDelayMs: number("JINA_RETRY_MAX_DELAY_MS", 10_000),
+      },
+      timeoutMs: number("JINA_REQUEST_TIMEOUT_MS", 60_000),
+      maxConcurrency: Math.max(1, number("JINA_MAX_CONCURRENCY", 5)),
+      requestsPerMinute: number("JINA_RATE_LIMIT_RPM", 0),
+      circuitFailureThreshold: number("JINA_CIRCUIT_FAILURE_THRESHOLD", 5),
+      circuitResetMs: number("JINA_CIRCUIT_RESET_MS", 30_000),
+    },
+    budgets: {
+      session: budget("JINA_SESSION_TOKEN_BUDGET"),
+      global: budget("JINA_GLOBAL_TOKEN_BUDGET"),
+    },
+    notebook: {
+      // Indexing embeds every page read a second time, so it is opt-in
+      enabled: env.JINA_NOTEBOOK === "on",
+      directory: env.JINA_NOTEBOOK_DIR || undefined,
+    },
+    chunking: {
+      targetTokens: number("JINA_CHUNK_TOKENS", 256),
+      overlapTokens: number("JINA_CHUNK_OVERLAP_TOKENS", 32),
+      // Set JINA_SEGMENTER=on to calibrate token counts with the Jina Segmenter API
+      segmenter: env.JINA_SEGMENTER === "on",
+    },
+  };
+}
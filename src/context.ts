@@ -0,0 +1,250 @@
+/**
+ * State shared by every MCP session of a server process: configuration, the
+ * Jina client and the per-session usage, notebooks and fetched pages.
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { EmbeddingOptions } from "../schemas.js";
+import { ResponseCache } from "./cache.js";
+import { chunkContents } from "./chunking.js";
+import { ServerConfig } from "./config.js";
+import { embedTexts } from "./embeddings.js";
+import { HOSTED_JINA_URLS, JinaClient, JinaUrls } from "./jinaClient.js";
+import { logger, withLogContext } from "./log.js";
+import { Metrics } from "./metrics.js";
+import { Notebook, NotebookStore } from "./notebook.js";
+import { ResourceRegistry, pageUri } from "./resources.js";
+import { UrlPolicy } from "./urlPolicy.js";
+import { UsageContext, UsageTracker, usageContext } from "./usage.js";
+
+// Session key for stdio, which has a single implicit session
+export const STDIO_SESSION_ID = "stdio";
+
+export type ServerContext = {
+  config: ServerConfig;
+  client: JinaClient;
+  cache: ResponseCache;
+  usage: UsageTracker;
+  metrics: Metrics;
+  notebooks: NotebookStore;
+  // Pages fetched per session, exposed as `jina://page/{url}` resources
+  resources: ResourceRegistry;
+  // Aborted when the session's transport closes, cancelling its running calls
+  sessionSignal?: AbortSignal;
+};
+
+/**
+ * Build the shared state for a configuration. Endpoints the configuration
+ * does not override are served from `baseUrls`, the hosted APIs by default.
+ */
+export function createContext(
+  config: ServerConfig,
+  baseUrls: JinaUrls = HOSTED_JINA_URLS
+): ServerContext {
+  const cache = new ResponseCache({
+    maxEntries: config.cache.maxEntries,
+    directory: config.cache.directory,
+  });
+  const usage = new UsageTracker(config.budgets);
+  const metrics = new Metrics();
+  const client = new JinaClient({
+    apiKey: config.apiKey,
+    urls: { ...baseUrls, ...config.urls },
+    cache: config.cache.enabled ? cache : undefined,
+    cacheTtlMs: config.cache.ttlMs,
+    resilience: config.resilience,
+    usage,
+    metrics,
+    urlPolicy: new UrlPolicy(config.urlPolicy),
+  });
+  return {
+    config,
+    client,
+    cache,
+    usage,
+    metrics,
+    notebooks: new NotebookStore(config.notebook.directory),
+    resources: new ResourceRegistry(),
+  };
+}
+
+/** Context for a session that bills its Jina calls to its own API key. */
+export function withClientKey(
+  context: ServerContext,
+  apiKey: string
+): ServerContext {
+  return { ...context, client: context.client.withApiKey(apiKey) };
+}
+
+/** Drop everything kept for a session once its transport closes. */
+export function releaseSession(
+  context: ServerContext,
+  sessionId: string
+): void {
+  void context.notebooks.release(sessionId);
+  context.usage.release(sessionId);
+  context.resources.release(sessionId);
+}
+
+/**
+ * Split page content into Markdown-aware chunks, calibrating token counts
+ * with the Segmenter when it is enabled.
+ */
+export async function chunkPage(
+  context: ServerContext,
+  text: string
+): Promise<string[]> {
+  const [chunks] = await chunkPages(context, [text]);
+  return chunks;
+}
+
+/** Chunk several pages with a single Segmenter calibration between them. */
+export function chunkPages(
+  context: ServerContext,
+  texts: string[]
+): Promise<string[][]> {
+  const { segmenter, ...options } = context.config.chunking;
+  return chunkContents(
+    texts,
+    options,
+    segmenter
+      ? (sample) =>
+          context.client.segment(sample).then((response) => response.num_tokens)
+      : undefined
+  );
+}
+
+// --- Research Notebook Helpers ---
+
+// Pages are indexed with asymmetric retrieval embeddings, which unlike the
+// late-chunked ranking embeddings are cached per text.
+export const NOTEBOOK_PASSAGE_OPTIONS: EmbeddingOptions = {
+  model: "jina-embeddings-v3",
+  task: "retrieval.passage",
+};
+export const NOTEBOOK_QUERY_OPTIONS: EmbeddingOptions = {
+  model: "jina-embeddings-v3",
+  task: "retrieval.query",
+};
+
+/** Notebook of the session a tool call belongs to. */
+export function sessionNotebook(
+  context: ServerContext,
+  sessionId: string | undefined
+): Promise<Notebook> {
+  return context.notebooks.get(sessionId ?? STDIO_SESSION_ID);
+}
+
+/**
+ * Embed a page's chunks and add it to the session notebook in the background.
+ * The embeddings are billed to the session as `notebook-index` rather than
+ * to the tool call, which may have reported its tokens by then.
+ */
+export function indexPage(
+  context: ServerContext,
+  sessionId: string | undefined,
+  page: {
+    url: string;
+    title: string;
+    source: "read-webpage" | "search";
+    chunks: string[];
+  }
+): void {
+  if (!context.config.notebook.enabled || page.chunks.length === 0) return;
+  const indexing: UsageContext = {
+    sessionId: sessionId ?? STDIO_SESSION_ID,
+    tool: "notebook-index",
+    tokens: 0,
+    signal: context.sessionSignal,
+  };
+  const task = sessionNotebook(context, sessionId).then(async (notebook) => {
+    notebook.track(
+      (async () => {
+        const embeddings = await usageContext.run(indexing, () =>
+          embedTexts(context.client, page.chunks, NOTEBOOK_PASSAGE_OPTIONS)
+        );
+        if (embeddings.length !== page.chunks.length) {
+          throw new Error(
+            `Embedding count mismatch for ${page.url}. Expected ${page.chunks.length}, got ${embeddings.length}.`
+          );
+        }
+        await notebook.add({
+          url: page.url,
+          title: page.title,
+          source: page.source,
+          addedAt: new Date().toISOString(),
+          chunks: page.chunks.map((text, i) => ({
+            text,
+            embedding: embeddings[i],
+          })),
+        });
+      })()
+    );
+  });
+  task.catch((error: any) => {
+    logger.warn("Failed to open session notebook", { error });
+  });
+}
+
+// --- Resource Helpers ---
+
+/**
+ * Record a page fetched by a session. Tells the session its resource list
+ * changed when the page is new to it, and tells every subscriber when a
+ * refresh returned different content.
+ */
+export function trackPage(
+  context: ServerContext,
+  server: McpServer,
+  sessionId: string | undefined,
+  page: { url: string; title: string },
+  content: string
+): void {
+  const { added, changed } = context.resources.recordPage(
+    sessionId ?? STDIO_SESSION_ID,
+    page,
+    content
+  );
+  if (added && server.isConnected()) {
+    server.server.sendResourceListChanged().catch((error: any) => {
+      logger.warn("Failed to send resource list change", { error });
+    });
+  }
+  if (changed) {
+    void context.resources.notifyUpdated(pageUri(page.url));
+  }
+}
+
+// --- Usage Accounting Helpers ---
+
+/** Signal of a request that also aborts when its session closes. */
+export function requestSignal(
+  { sessionSignal }: Pick<ServerContext, "sessionSignal">,
+  signal: AbortSignal
+): AbortSignal {
+  return sessionSignal ? AbortSignal.any([signal, sessionSignal]) : signal;
+}
+
+/**
+ * Run Jina calls on behalf of a session outside of a tool call, such as a
+ * resource read, refusing once a budget is exhausted.
+ */
+export function withSessionUsage<T>(
+  context: ServerContext,
+  extra: { sessionId?: string; signal: AbortSignal },
+  tool: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const id = extra.sessionId ?? STDIO_SESSION_ID;
+  context.usage.assertWithinBudget(id, context.client.usesClientKey);
+  return withLogContext({ sessionId: id, tool }, () =>
+    usageContext.run(
+      {
+        sessionId: id,
+        tool,
+        tokens: 0,
+        signal: requestSignal(context, extra.signal),
+      },
+      fn
+    )
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Multi-hop research: search, read the top results, rank passages across all
+ * pages and follow up on what the evidence does not cover yet.
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ServerContext, chunkPage, indexPage, trackPage } from "./context.js";
+import { embedTexts } from "./embeddings.js";
+import { CancelledError, throwIfCancelled } from "./errors.js";
+import { JinaClient } from "./jinaClient.js";
+import { logger } from "./log.js";
+import {
+  HybridOptions,
+  RankingMethod,
+  once,
+  selectTopChunks,
+} from "./ranking.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export type ResearchSource = { url: string; title: string; chunks: string[] };
+
+export type Evidence = { source: ResearchSource; chunk: string; score: number };
+
+export type ResearchResult = {
+  queries: string[];
+  sources: ResearchSource[];
+  evidence: Evidence[];
+  /** Pages that could not be read, whose search snippet was used instead. */
+  failures: { url: string; error: string }[];
+};
+
+// Words too common to tell whether evidence covers a question
+const STOPWORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has " +
+    "him his how its may new now see two who did get got let say she too " +
+    "use what when where which while with from that this than then them " +
+    "they there these those their have been were will would could should " +
+    "about after before does into more most much many some such only also " +
+    "other over very your why"
+  ).split(" ")
+);
+
+/** Distinct content words of a text, lowercased. */
+export function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words.filter((w) => w.length > 2 && !STOPWORDS.has(w)))];
+}
+
+/**
+ * Build a follow-up query from the question's keywords that no evidence
+ * passage mentions yet. Covered keywords are kept as context so the search
+ * stays on topic. Returns undefined when nothing is missing.
+ */
+export function followUpQuery(
+  question: string,
+  evidence: Evidence[],
+  asked: string[]
+): string | undefined {
+  const text = evidence.map((e) => e.chunk.toLowerCase()).join("\n");
+  const terms = keywords(question);
+  const missing = terms.filter((term) => !text.includes(term));
+  if (missing.length === 0 || missing.length === terms.length) {
+    return undefined;
+  }
+  const context = terms.filter((term) => !missing.includes(term)).slice(0, 3);
+  const query = [...missing, ...context].join(" ");
+  return asked.includes(query) ? undefined : query;
+}
+
+/** Rank the chunks of all pages read so far against the question. */
+export async function rankEvidence(
+  client: JinaClient,
+  question: string,
+  sources: ResearchSource[],
+  ranking: RankingMethod,
+  getQueryEmbedding: () => Promise<number[] | undefined>,
+  topK: number,
+  hybrid?: HybridOptions
+): Promise<Evidence[]> {
+  // Identical chunks on several pages are attributed to the first one
+  const owners = new Map<string, ResearchSource>();
+  for (const source of sources) {
+    for (const chunk of source.chunks) {
+      if (!owners.has(chunk)) owners.set(chunk, source);
+    }
+  }
+  const scored = await selectTopChunks(
+    client,
+    question,
+    [...owners.keys()],
+    ranking,
+    getQueryEmbedding,
+    topK,
+    hybrid
+  );
+  return scored.map(({ chunk, score }) => ({
+    source: owners.get(chunk)!,
+    chunk,
+    score,
+  }));
+}
+
+/**
+ * Send `notifications/progress` for a tool call if the client asked for
+ * progress. `total` is an upper bound since rounds may end early.
+ */
+function progressReporter(
+  extra: ToolExtra,
+  total: number
+): (message: string) => Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+  return async (message) => {
+    progress = Math.min(progress + 1, total);
+    if (progressToken === undefined) return;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      });
+    } catch (error: any) {
+      logger.warn("Failed to send progress notification", { error });
+    }
+  };
+}
+
+/**
+ * Search, read the top results and rank passages across every page read,
+ * then repeat with follow-up queries for what the evidence does not cover.
+ * Stops between steps once the client cancels the request.
+ */
+export async function deepResearch(
+  context: ServerContext,
+  server: McpServer,
+  question: string,
+  options: {
+    depth: number;
+    breadth: number;
+    topK: number;
+    ranking: RankingMethod;
+    hybrid?: HybridOptions;
+  },
+  extra: ToolExtra
+): Promise<ResearchResult> {
+  const { depth, breadth, topK, ranking, hybrid } = options;
+  // One search, `breadth` reads and one ranking step per round
+  const report = progressReporter(extra, depth * (breadth + 2));
+  const getQueryEmbedding = once(
+    async () => (await embedTexts(context.client, [question]))[0]
+  );
+
+  const sources = new Map<string, ResearchSource>();
+  const queries: string[] = [];
+  const failures: ResearchResult["failures"] = [];
+  let evidence: Evidence[] = [];
+  let query: string | undefined = question;
+
+  for (let round = 1; round <= depth && query; round++) {
+    throwIfCancelled(extra.signal);
+    queries.push(query);
+    const results = await context.client.search(query, {
+      count: Math.min(20, breadth * 2),
+    });
+    await report(`Round ${round}: searched for "${query}"`);
+
+    const fresh = results.data
+      .filter((item) => !sources.has(item.url))
+      .slice(0, breadth);
+    await Promise.all(
+      fresh.map(async (item) => {
+        throwIfCancelled(extra.signal);
+        let title = item.title;
+        let content = item.content;
+        try {
+          const page = await context.client.read(item.url);
+          title = page.data.title || title;
+          content = page.data.content;
+          trackPage(
+            context,
+            server,
+            extra.sessionId,
+            { url: item.url, title },
+            content
+          );
+        } catch (error: any) {
+          if (error instanceof CancelledError) throw error;
+          failures.push({ url: item.url, error: error.message });
+        }
+        const chunks = await chunkPage(context, content || "");
+        sources.set(item.url, { url: item.url, title, chunks });
+        indexPage(context, extra.sessionId, {
+          url: item.url,
+          title,
+          source: "read-webpage",
+          chunks,
+        });
+        await report(`Round ${round}: read ${item.url}`);
+      })
+    );
+
+    throwIfCancelled(extra.signal);
+    evidence = await rankEvidence(
+      context.client,
+      question,
+      [...sources.values()],
+      ranking,
+      getQueryEmbedding,
+      topK,
+      hybrid
+    );
+    await report(`Round ${round}: ranked passages from ${sources.size} pages`);
+
+    query =
+      round < depth ? followUpQuery(question, evidence, queries) : undefined;
+  }
+
+  return { queries, sources: [...sources.values()], evidence, failures };
+}
+
+/** Render research results as evidence passages with numbered citations. */
+export function formatResearch(
+  question: string,
+  result: ResearchResult
+): string {
+  // Number sources in order of their first cited passage
+  const citations = new Map<ResearchSource, number>();
+  for (const { source } of result.evidence) {
+    if (!citations.has(source)) citations.set(source, citations.size + 1);
+  }
+
+  const lines = [`Question: ${question}`, "", "Searches:"];
+  result.queries.forEach((query, i) =>
+    lines.push(`${i + 1}. ${query}${i > 0 ? " (follow-up)" : ""}`)
+  );
+
+  lines.push("", "Evidence:");
+  if (result.evidence.length === 0) {
+    lines.push("No relevant passages found.");
+  }
+  for (const { source, chunk } of result.evidence) {
+    lines.push(`[${citations.get(source)}] ${chunk}`, "");
+  }
+
+  lines.push("Sources:");
+  for (const [source, n] of citations) {
+    lines.push(`[${n}] ${source.title || "N/A"} - ${source.url}`);
+  }
+  const uncited = result.sources.length - citations.size;
+  if (uncited > 0) {
+    lines.push(`(${uncited} more pages read without relevant passages)`);
+  }
+
+  if (result.failures.length > 0) {
+    lines.push("", "Pages that could not be read (search snippet used):");
+    for (const { url, error } of result.failures) {
+      lines.push(`- ${url}: ${error}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,202 @@
+import { EmbeddingOptions, EmbeddingOptionsSchema } from "../schemas.js";
+import { cacheKey } from "./cache.js";
+import { estimateTokens } from "./chunking.js";
+import { InvalidInputError, UpstreamError } from "./errors.js";
+import { JinaClient } from "./jinaClient.js";
+import { logger } from "./log.js";
+import { throwIfCallCancelled } from "./usage.js";
+
+// Token limit for a single embedding request (approximate): 75% of Jina's
+// 8192-token limit, leaving room for estimation error
+export const EMBEDDING_TOKEN_LIMIT = 6144;
+
+/** Whether a text fits in one embedding request; warns about texts that do not. */
+export function withinTokenLimit(text: string): boolean {
+  const count = estimateTokens(text);
+  if (count > EMBEDDING_TOKEN_LIMIT) {
+    logger.warn(
+      `Skipping a text with an estimated ${count} tokens, exceeding the limit of ${EMBEDDING_TOKEN_LIMIT}`,
+      { text }
+    );
+    return false;
+  }
+  return true;
+}
+
+// Options used for chunk ranking inside the search and read-webpage tools
+export const RANKING_EMBEDDING_OPTIONS: EmbeddingOptions = {
+  model: "jina-embeddings-v3",
+  task: "text-matching",
+  late_chunking: true,
+};
+
+/** Process a batch of texts and return their embeddings in order. */
+export async function processBatch(
+  client: JinaClient,
+  batch: string[],
+  options: EmbeddingOptions = RANKING_EMBEDDING_OPTIONS
+): Promise<number[][]> {
+  if (batch.length === 0) return [];
+  // Later batches of a cancelled call are not sent
+  throwIfCallCancelled();
+  const response = await client.embed(batch, options);
+
+  if ("data" in response) {
+    const data = response.data;
+    const allIndexed = data.every(
+      (item) =>
+        item.index !== undefined &&
+        Number.isInteger(item.index) &&
+        item.index >= 0 &&
+        item.index < batch.length
+    );
+
+    if (allIndexed) {
+      const ordered: (number[] | undefined)[] = new Array(batch.length);
+      for (const item of data) {
+        if (item.index !== undefined && item.index < batch.length) {
+          ordered[item.index] = item.embedding;
+        }
+      }
+      return ordered.filter((e): e is number[] => e !== undefined);
+    }
+
+    if (!data.every((item) => item.index === undefined)) {
+      logger.warn(
+        "Indices not consistently present in Jina response data; assuming direct order"
+      );
+    }
+
+    return data.map((d) => d.embedding);
+  }
+
+  return response.embeddings;
+}
+
+// Generate embeddings using Jina AI with basic validation and batching.
+// Without late chunking each embedding depends only on its own text, so
+// embeddings are cached per text and only cache misses are sent to Jina.
+export async function embedTexts(
+  client: JinaClient,
+  texts: string[],
+  options: EmbeddingOptions = RANKING_EMBEDDING_OPTIONS
+): Promise<number[][]> {
+  const trimmed = texts.map((t) => t.trim()).filter((t) => t !== "");
+  if (trimmed.length === 0) {
+    return [];
+  }
+  if (!client.cachingEnabled || options.late_chunking) {
+    return embedInBatches(client, trimmed, options);
+  }
+
+  const { model, task, dimensions, normalized } =
+    EmbeddingOptionsSchema.parse(options);
+  const embeddable = trimmed.filter(withinTokenLimit);
+  const keys = embeddable.map((text) =>
+    cacheKey(text, model, task, dimensions, normalized)
+  );
+  const results = await Promise.all(
+    keys.map((key) => client.cached<number[]>("embedding-text", key))
+  );
+  const missing = embeddable.filter((_, i) => results[i] === undefined);
+  if (missing.length === 0) {
+    return results as number[][];
+  }
+
+  const fresh = await embedInBatches(client, missing, options);
+  if (fresh.length !== missing.length) {
+    // Alignment is lost, so return only what is known to be correct and let
+    // callers handle the count mismatch.
+    logger.error("Embedding count mismatch", {
+      expected: missing.length,
+      received: fresh.length,
+    });
+    return results.filter((e): e is number[] => e !== undefined);
+  }
+
+  let next = 0;
+  for (let i = 0; i < results.length; i++) {
+    if (results[i] === undefined) {
+      results[i] = fresh[next++];
+      await client.store("embedding-text", keys[i], results[i]);
+    }
+  }
+  return results as number[][];
+}
+
+/** Embed texts in batches that stay within the embedding token limit. */
+export async function embedInBatches(
+  client: JinaClient,
+  texts: string[],
+  options: EmbeddingOptions
+): Promise<number[][]> {
+  const results: number[][] = [];
+  let batch: string[] = [];
+  let tokens = 0;
+
+  for (const text of texts) {
+    if (!withinTokenLimit(text)) {
+      continue;
+    }
+    const count = estimateTokens(text);
+
+    if (tokens + count > EMBEDDING_TOKEN_LIMIT && batch.length > 0) {
+      const embeddings = await processBatch(client, batch, options);
+      results.push(...embeddings);
+      batch = [];
+      tokens = 0;
+    }
+
+    batch.push(text);
+    tokens += count;
+  }
+
+  if (batch.length > 0) {
+    const embeddings = await processBatch(client, batch, options);
+    results.push(...embeddings);
+  }
+
+  return results;
+}
+
+/**
+ * Embed texts for the Embed and Similarity tools. Unlike `embedTexts`, which
+ * silently drops empty or oversized texts, this rejects them so the returned
+ * embeddings line up with the input.
+ */
+export async function embedAllTexts(
+  client: JinaClient,
+  texts: string[],
+  options: EmbeddingOptions
+): Promise<number[][]> {
+  texts.forEach((text, index) => {
+    if (text.trim() === "") {
+      throw new InvalidInputError(`Text ${index + 1} is empty.`);
+    }
+    if (estimateTokens(text.trim()) > EMBEDDING_TOKEN_LIMIT) {
+      throw new InvalidInputError(
+        `Text ${index + 1} exceeds the limit of ${EMBEDDING_TOKEN_LIMIT} tokens.`
+      );
+    }
+  });
+  const embeddings = await embedTexts(client, texts, options);
+  if (embeddings.length !== texts.length) {
+    throw new UpstreamError(
+      `Embedding count mismatch. Expected ${texts.length}, got ${embeddings.length}.`
+    );
+  }
+  return embeddings;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0,
+    normA = 0,
+    normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
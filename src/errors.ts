@@ -0,0 +1,171 @@
+import { ZodError } from "zod";
+
+/**
+ * Base class for every error surfaced to MCP clients. `code` identifies the
+ * failure category and `retryable` tells the agent whether calling the tool
+ * again can succeed.
+ */
+export abstract class JinaError extends Error {
+  abstract readonly code: string;
+  abstract readonly retryable: boolean;
+
+  constructor(message: string) {
+    super(redactSecrets(message));
+    this.name = new.target.name;
+  }
+
+  /** Advice for the agent on whether and when to retry. */
+  get retryHint(): string {
+    return this.retryable
+      ? "This is likely temporary; retrying later may succeed."
+      : "Retrying the same request will not help.";
+  }
+}
+
+/** The API key is missing, invalid or lacks access (401/403). */
+export class AuthenticationError extends JinaError {
+  readonly code = "auth_error";
+  readonly retryable = false;
+
+  constructor(
+    message: string,
+    /** Whether the rejected key is the client's own rather than the server's. */
+    readonly clientKey = false
+  ) {
+    super(message);
+  }
+
+  get retryHint(): string {
+    return this.clientKey
+      ? "The Jina API key sent in the X-Jina-Api-Key header was rejected; check the key the client is configured with. Retrying will not help."
+      : "The server's Jina API key was rejected; ask the operator to check JINA_API_KEY. Retrying will not help.";
+  }
+}
+
+/** The account has no balance or quota left (402). */
+export class QuotaExceededError extends JinaError {
+  readonly code = "quota_exceeded";
+  readonly retryable = false;
+
+  get retryHint(): string {
+    return "The Jina account is out of quota; retrying will not help until it is topped up.";
+  }
+}
+
+/** Jina is throttling requests (429). */
+export class RateLimitError extends JinaError {
+  readonly code = "rate_limited";
+  readonly retryable = true;
+
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+
+  get retryHint(): string {
+    return this.retryAfterMs !== undefined
+      ? `Jina is rate limiting requests; retry after ${Math.ceil(
+          this.retryAfterMs / 1000
+        )}s.`
+      : "Jina is rate limiting requests; retry after a short wait.";
+  }
+}
+
+/** Jina failed (5xx), returned an empty body, or is marked down by the circuit breaker. */
+export class UpstreamError extends JinaError {
+  readonly code = "upstream_error";
+  readonly retryable = true;
+}
+
+/** The request could not reach Jina at all. */
+export class NetworkError extends JinaError {
+  readonly code = "network_error";
+  readonly retryable = true;
+}
+
+/** No response was received in time. */
+export class TimeoutError extends JinaError {
+  readonly code = "timeout";
+  readonly retryable = true;
+}
+
+/** Jina responded with data that does not match the expected schema. */
+export class SchemaMismatchError extends JinaError {
+  readonly code = "schema_mismatch";
+  readonly retryable = false;
+
+  static fromZod(endpoint: string, error: ZodError): SchemaMismatchError {
+    const issues = error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    return new SchemaMismatchError(
+      `Unexpected response format from the Jina ${endpoint} API: ${issues}`
+    );
+  }
+}
+
+/** The tool arguments, or the request Jina received, were invalid (400/422). */
+export class InvalidInputError extends JinaError {
+  readonly code = "invalid_input";
+  readonly retryable = false;
+
+  get retryHint(): string {
+    return "Fix the arguments before trying again.";
+  }
+}
+
+/** The server's URL policy refuses to let Jina fetch a URL. */
+export class PolicyViolationError extends JinaError {
+  readonly code = "policy_violation";
+  readonly retryable = false;
+
+  get retryHint(): string {
+    return "The server's URL policy does not allow this URL; use another source. Retrying will not help.";
+  }
+}
+
+/** The client cancelled the request before it finished. */
+export class CancelledError extends JinaError {
+  readonly code = "cancelled";
+  readonly retryable = false;
+
+  get retryHint(): string {
+    return "The request was cancelled by the client.";
+  }
+}
+
+/** Throw if the client has cancelled the request the signal belongs to. */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new CancelledError("The request was cancelled.");
+}
+
+/** Map a non-2xx Jina response to the matching error class. */
+export function errorFromResponse(
+  endpoint: string,
+  status: number,
+  statusText: string,
+  body: string,
+  retryAfterMs?: number,
+  clientKey = false
+): JinaError {
+  const message = `Jina ${endpoint} API returned ${status} ${statusText}${
+    body ? `: ${body.substring(0, 500)}` : ""
+  }`;
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, clientKey);
+  }
+  if (status === 402) return new QuotaExceededError(message);
+  if (status === 429) return new RateLimitError(message, retryAfterMs);
+  if (status >= 500) return new UpstreamError(message);
+  return new InvalidInputError(message);
+}
+
+/** Strip bearer tokens and Jina API keys from text that may be shown to clients. */
+export function redactSecrets(text: string): string {
+  return text
+    .replace(/Bearer\s+[^\s"',]+/gi, "Bearer [REDACTED]")
+    .replace(/jina_[A-Za-z0-9_-]{8,}/g, "[REDACTED]");
+}
@@ -0,0 +1,74 @@
+import type {
+  EventStore,
+  EventId,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * In-memory event store used by the Streamable HTTP transport so that clients
+ * can resume an interrupted SSE stream with the `Last-Event-ID` header.
+ * Each session has its own store, which keeps only the most recent
+ * `maxEvents` events across all of its streams, so a long-lived session
+ * opening many streams cannot grow it without bound.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<
+    StreamId,
+    { eventId: EventId; message: JSONRPCMessage }[]
+  >();
+  // Stream of every stored event, oldest first
+  private order: StreamId[] = [];
+  private counter = 0;
+
+  constructor(private maxEvents = 1000) {}
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage
+  ): Promise<EventId> {
+    // Event IDs embed the stream ID so replay can find the stream again.
+    const eventId = `${streamId}_${++this.counter}`;
+    let events = this.streams.get(streamId);
+    if (!events) {
+      events = [];
+      this.streams.set(streamId, events);
+    }
+    events.push({ eventId, message });
+    this.order.push(streamId);
+    if (this.order.length > this.maxEvents) {
+      this.evictOldest();
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const separator = lastEventId.lastIndexOf("_");
+    if (separator === -1) return "";
+    const streamId = lastEventId.substring(0, separator);
+    const events = this.streams.get(streamId);
+    if (!events) return "";
+
+    const start = events.findIndex((e) => e.eventId === lastEventId);
+    if (start === -1) return "";
+    for (const { eventId, message } of events.slice(start + 1)) {
+      await send(eventId, message);
+    }
+    return streamId;
+  }
+
+  /** Drop the oldest event, and its stream once nothing is left of it. */
+  private evictOldest(): void {
+    const streamId = this.order.shift()!;
+    const events = this.streams.get(streamId)!;
+    events.shift();
+    if (events.length === 0) {
+      this.streams.delete(streamId);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { GroundingReference, GroundingResponse } from "../schemas.js";
+import { JinaError } from "./errors.js";
+import { FactCheckOutput, Verdict } from "./toolOutputs.js";
+
+// Upper bound on claims checked concurrently in batch mode
+export const MAX_BATCH_CLAIMS = 10;
+
+/**
+ * Split a paragraph into individual claims on sentence boundaries.
+ * Fragments of fewer than three words are merged into the previous claim.
+ */
+export function splitClaims(text: string): string[] {
+  const sentences = text
+    .split(/(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/)
+    .map((s) => s.trim())
+    .filter((s) => s !== "");
+  const claims: string[] = [];
+  for (const sentence of sentences) {
+    if (claims.length > 0 && sentence.split(/\s+/).length < 3) {
+      claims[claims.length - 1] += ` ${sentence}`;
+    } else {
+      claims.push(sentence);
+    }
+  }
+  return claims;
+}
+
+function countReferences(references: GroundingReference[]): {
+  supporting: number;
+  contradicting: number;
+} {
+  const supporting = references.filter((ref) => ref.isSupportive).length;
+  return { supporting, contradicting: references.length - supporting };
+}
+
+/** A grounding result as structured tool output. */
+export function verdictOutput(data: GroundingResponse["data"]): Verdict {
+  return {
+    result: data.result,
+    factuality: data.factuality,
+    reason: data.reason,
+    references: data.references.map((ref) => ({
+      url: ref.url,
+      key_quote: ref.keyQuote,
+      supportive: ref.isSupportive,
+    })),
+  };
+}
+
+/** Per-claim results as structured tool output. */
+export function claimsOutput(
+  claims: string[],
+  results: PromiseSettledResult<GroundingResponse>[]
+): NonNullable<FactCheckOutput["claims"]> {
+  return claims.map((claim, index) => {
+    const outcome = results[index];
+    return outcome.status === "fulfilled"
+      ? { claim, ...verdictOutput(outcome.value.data) }
+      : { claim, error: outcome.reason?.message ?? String(outcome.reason) };
+  });
+}
+
+function formatVerdict(result: boolean): string {
+  return result ? "Likely True" : "Likely False";
+}
+
+export function formatGrounding(
+  statement: string,
+  data: GroundingResponse["data"]
+): string {
+  const { result, reason, references, factuality } = data;
+  const { supporting, contradicting } = countReferences(references);
+  let referencesText = "No specific references provided.";
+  if (references.length > 0) {
+    referencesText = references
+      .map(
+        (ref, index) =>
+          `Reference ${index + 1}:\n  URL: ${ref.url}\n  Quote: "${
+            ref.keyQuote
+          }"\n  Supportive: ${ref.isSupportive}`
+      )
+      .join("\n");
+  }
+
+  return `Statement: "${statement}"\nResult: ${formatVerdict(
+    result
+  )}\nFactuality: ${factuality.toFixed(
+    2
+  )}\nSupporting references: ${supporting}\nContradicting references: ${contradicting}\nReason: ${
+    reason || "No reason provided."
+  }\n\nReferences:\n${referencesText}`;
+}
+
+/** Render per-claim results as a Markdown table followed by each claim's reasoning. */
+export function formatClaimTable(
+  claims: string[],
+  results: PromiseSettledResult<GroundingResponse>[]
+): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  const rows = claims.map((claim, index) => {
+    const outcome = results[index];
+    if (outcome.status === "rejected") {
+      return `| ${index + 1} | ${cell(claim)} | Error | - | - | - |`;
+    }
+    const { result, factuality, references } = outcome.value.data;
+    const { supporting, contradicting } = countReferences(references);
+    return `| ${index + 1} | ${cell(claim)} | ${formatVerdict(
+      result
+    )} | ${factuality.toFixed(2)} | ${supporting} | ${contradicting} |`;
+  });
+  const details = claims.map((claim, index) => {
+    const outcome = results[index];
+    const detail =
+      outcome.status === "rejected"
+        ? outcome.reason instanceof JinaError
+          ? `Fact check failed [${outcome.reason.code}]: ${outcome.reason.message}`
+          : `Fact check failed: ${outcome.reason?.message ?? outcome.reason}`
+        : outcome.value.data.reason || "No reason provided.";
+    return `Claim ${index + 1}: ${detail}`;
+  });
+
+  return [
+    "| # | Claim | Result | Factuality | Supporting | Contradicting |",
+    "|---|-------|--------|------------|------------|---------------|",
+    ...rows,
+    "",
+    ...details,
+  ].join("\n");
+}
@@ -0,0 +1,102 @@
+/**
+ * Liveness and readiness endpoints for the HTTP transports, for load
+ * balancers and container orchestrators.
+ */
+import express, { Request, Response } from "express";
+import fetch from "node-fetch";
+import { JinaUrls } from "./jinaClient.js";
+import { SessionRegistry } from "./sessions.js";
+
+// How long a reachability check waits for each Jina host
+const PROBE_TIMEOUT_MS = 5_000;
+
+// Readiness checks are frequent, so a probe result is reused for a while
+const PROBE_CACHE_MS = 30_000;
+
+export type ProbeResult = {
+  reachable: boolean;
+  /** Hosts that could not be reached, with the reason. */
+  failures: { host: string; error: string }[];
+};
+
+/**
+ * Checks that the hosts serving the Jina endpoints answer at all. Any HTTP
+ * response counts, so the check neither needs a key nor spends tokens.
+ */
+export class JinaProbe {
+  private last?: { result: Promise<ProbeResult>; at: number };
+
+  constructor(
+    private urls: JinaUrls,
+    private timeoutMs = PROBE_TIMEOUT_MS
+  ) {}
+
+  check(now = Date.now()): Promise<ProbeResult> {
+    if (!this.last || now - this.last.at >= PROBE_CACHE_MS) {
+      this.last = { result: this.probe(), at: now };
+    }
+    return this.last.result;
+  }
+
+  private async probe(): Promise<ProbeResult> {
+    const origins = [
+      ...new Set(Object.values(this.urls).map((url) => new URL(url).origin)),
+    ];
+    const failures: ProbeResult["failures"] = [];
+    await Promise.all(
+      origins.map(async (origin) => {
+        try {
+          const response = await fetch(origin, {
+            method: "HEAD",
+            signal: AbortSignal.timeout(this.timeoutMs),
+          });
+          // Drain the (empty) body so the socket is released
+          await response.arrayBuffer();
+        } catch (error: any) {
+          failures.push({
+            host: new URL(origin).host,
+            error:
+              error.name === "AbortError"
+                ? `no response within ${this.timeoutMs}ms`
+                : error.message,
+          });
+        }
+      })
+    );
+    return { reachable: failures.length === 0, failures };
+  }
+}
+
+/**
+ * Mount `/healthz`, which answers while the process is up, and `/readyz`,
+ * which fails while shutting down, at the session limit or, with `probe`,
+ * when Jina cannot be reached.
+ */
+export function mountHealthRoutes(
+  app: express.Express,
+  sessions: SessionRegistry,
+  probe?: JinaProbe
+): void {
+  app.get("/healthz", (req: Request, res: Response) => {
+    res.json({ status: "ok" });
+  });
+
+  app.get("/readyz", async (req: Request, res: Response) => {
+    const jina = probe ? await probe.check() : undefined;
+    const status = sessions.isDraining
+      ? "draining"
+      : !sessions.hasCapacity
+        ? "full"
+        : jina && !jina.reachable
+          ? "jina_unreachable"
+          : "ready";
+    res.status(status === "ready" ? 200 : 503).json({
+      status,
+      sessions: {
+        active: sessions.size,
+        max: sessions.maxSessions > 0 ? sessions.maxSessions : null,
+      },
+      ...(jina ? { jina } : {}),
+    });
+  });
+}
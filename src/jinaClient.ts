@@ -0,0 +1,672 @@
+/**
+ * Typed client for the Jina APIs with response caching, usage accounting,
+ * retries, per-endpoint rate limiting and circuit breaking.
+ */
+import fetch, { Response as FetchResponse } from "node-fetch";
+import { z } from "zod";
+import {
+  GroundingRequest,
+  GroundingResponse,
+  GroundingResponseSchema,
+  EmbeddingOptions,
+  EmbeddingOptionsSchema,
+  EmbeddingResponse,
+  EmbeddingResponseSchema,
+  ImageContentSchema,
+  ReaderResponse,
+  ReaderResponseSchema,
+  ReadWebPageRequest,
+  RerankResponse,
+  RerankResponseSchema,
+  SearchResponse,
+  SearchResponseSchema,
+  SearchWebRequest,
+  SegmenterResponse,
+  SegmenterResponseSchema,
+} from "../schemas.js";
+import { ResponseCache, cacheKey } from "./cache.js";
+import {
+  CancelledError,
+  InvalidInputError,
+  JinaError,
+  NetworkError,
+  PolicyViolationError,
+  RateLimitError,
+  SchemaMismatchError,
+  TimeoutError,
+  UpstreamError,
+  errorFromResponse,
+  throwIfCancelled,
+} from "./errors.js";
+import {
+  BackoffOptions,
+  CircuitBreaker,
+  RateLimiter,
+  parseRetryAfter,
+  retryDelay,
+  sleep,
+} from "./resilience.js";
+import { logger } from "./log.js";
+import { Metrics } from "./metrics.js";
+import { UrlPolicy } from "./urlPolicy.js";
+import { UsageTracker, usageContext } from "./usage.js";
+
+export type JinaEndpoint =
+  "reader" | "search" | "grounding" | "embeddings" | "rerank" | "segmenter";
+
+// One namespace per Jina endpoint, plus per-text embeddings
+export type CacheNamespace = JinaEndpoint | "embedding-text";
+
+export type JinaUrls = Record<JinaEndpoint, string>;
+
+export const HOSTED_JINA_URLS: JinaUrls = {
+  search: "https://s.jina.ai/",
+  reader: "https://r.jina.ai/",
+  grounding: "https://g.jina.ai/",
+  embeddings: "https://api.jina.ai/v1/embeddings",
+  rerank: "https://api.jina.ai/v1/rerank",
+  segmenter: "https://segment.jina.ai/",
+};
+
+const JINA_RERANK_MODEL = "jina-reranker-v2-base-multilingual";
+
+export type ResilienceOptions = {
+  /** Total attempts per request, including the first one. */
+  maxAttempts: number;
+  backoff: BackoffOptions;
+  /** Timeout per attempt; 0 disables it. */
+  timeoutMs: number;
+  /** Requests in flight per endpoint. */
+  maxConcurrency: number;
+  /** Requests started per minute per endpoint; 0 means unlimited. */
+  requestsPerMinute: number;
+  /** Consecutive failures that open an endpoint's circuit; 0 disables it. */
+  circuitFailureThreshold: number;
+  circuitResetMs: number;
+};
+
+export type JinaClientOptions = {
+  /** Requests are sent without credentials when unset, and Jina rejects them. */
+  apiKey: string | undefined;
+  /** Whether `apiKey` was supplied by the client rather than configured. */
+  clientKey?: boolean;
+  urls: JinaUrls;
+  /** Responses are only cached when a cache is given. */
+  cache?: ResponseCache;
+  cacheTtlMs: Record<CacheNamespace, number>;
+  /** Keeps this client's cache entries apart from those of other keys. */
+  cachePartition?: string;
+  resilience: ResilienceOptions;
+  usage: UsageTracker;
+  metrics: Metrics;
+  /** URLs Jina may fetch; without a policy, any URL is passed on. */
+  urlPolicy?: UrlPolicy;
+};
+
+type JinaCallOptions<T> = {
+  /** Shape of the endpoint's response; responses not matching it are never cached. */
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** Skip the cache lookup and fetch fresh, still storing the result. */
+  noCache?: boolean;
+  /** Extract the tokens billed for a response. */
+  usage?: (response: T) => number | undefined;
+};
+
+// Headers that do not change the response and must not end up in cache keys
+const UNCACHED_HEADERS = new Set(["authorization", "x-no-cache"]);
+
+/**
+ * Tokens billed for a response. Malformed responses count as free; they are
+ * rejected when validated against the endpoint's schema.
+ */
+function billedTokens<T>(
+  response: T,
+  usage: (response: T) => number | undefined
+): number {
+  try {
+    return usage(response) ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+export class JinaClient {
+  readonly headers: Record<string, string>;
+  // Search results fan out into many parallel embedding calls, so every
+  // endpoint gets its own limiter and breaker
+  private limiters = new Map<JinaEndpoint, RateLimiter>();
+  private breakers = new Map<JinaEndpoint, CircuitBreaker>();
+
+  constructor(private options: JinaClientOptions) {
+    this.headers = {
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    };
+  }
+
+  /**
+   * A client billing its calls to another API key. It shares the circuit
+   * breakers, which track endpoint health, but gets its own rate limiters
+   * since Jina limits each key separately, and its own cache partition so
+   * responses paid for by one key are not served to another.
+   */
+  withApiKey(apiKey: string): JinaClient {
+    const client = new JinaClient({
+      ...this.options,
+      apiKey,
+      clientKey: true,
+      cachePartition: cacheKey("api-key", apiKey),
+    });
+    client.breakers = this.breakers;
+    return client;
+  }
+
+  /** Endpoint URLs this client calls. */
+  get urls(): JinaUrls {
+    return this.options.urls;
+  }
+
+  /** Whether calls are billed to a key the client supplied. */
+  get usesClientKey(): boolean {
+    return this.options.clientKey ?? false;
+  }
+
+  get cachingEnabled(): boolean {
+    return this.options.cache !== undefined;
+  }
+
+  /** Look up a cached value; always a miss when caching is disabled. */
+  async cached<T>(
+    namespace: CacheNamespace,
+    key: string
+  ): Promise<T | undefined> {
+    const { cache, metrics } = this.options;
+    if (!cache) return undefined;
+    const value = await cache.get<T>(namespace, this.partitioned(key));
+    metrics.cacheLookups.inc({
+      namespace,
+      result: value === undefined ? "miss" : "hit",
+    });
+    return value;
+  }
+
+  async store(
+    namespace: CacheNamespace,
+    key: string,
+    value: unknown
+  ): Promise<void> {
+    await this.options.cache?.set(
+      namespace,
+      this.partitioned(key),
+      value,
+      this.options.cacheTtlMs[namespace]
+    );
+  }
+
+  /**
+   * POST to a Jina endpoint. Responses are validated against the endpoint's
+   * schema and only then cached, the tokens they cost are
+   * attributed to the current usage context, and network errors, timeouts,
+   * 429 and 5xx responses are retried with exponential backoff. Once the
+   * context's tool call is cancelled the request in flight is aborted and no
+   * further attempt is made.
+   */
+  async call<T>(
+    endpoint: JinaEndpoint,
+    body: object,
+    headers: Record<string, string>,
+    options: JinaCallOptions<T>
+  ): Promise<T> {
+    const url = this.options.urls[endpoint];
+    const key = this.cachingEnabled
+      ? cacheKey(
+          url,
+          body,
+          Object.fromEntries(
+            Object.entries(headers).filter(
+              ([name]) => !UNCACHED_HEADERS.has(name.toLowerCase())
+            )
+          )
+        )
+      : "";
+    if (!options.noCache) {
+      // Entries written before validation was in place may be malformed
+      const cached = options.schema.safeParse(
+        await this.cached<unknown>(endpoint, key)
+      );
+      if (cached.success) return cached.data;
+    }
+
+    // Cached responses are free, only refuse requests that would spend tokens
+    const context = usageContext.getStore();
+    if (context) {
+      this.options.usage.assertWithinBudget(
+        context.sessionId,
+        this.usesClientKey
+      );
+    }
+    const signal = context?.signal;
+
+    const { maxAttempts, backoff } = this.options.resilience;
+    const limiter = this.limiterFor(endpoint);
+    const breaker = this.breakerFor(endpoint);
+
+    // Retry network errors, timeouts, 429 and 5xx with exponential backoff;
+    // other 4xx responses will not succeed on a retry.
+    for (let attempt = 1; ; attempt++) {
+      throwIfCancelled(signal);
+      if (!breaker.allowRequest()) {
+        throw new UpstreamError(
+          `Jina ${endpoint} endpoint is temporarily unavailable after repeated failures. Retry in ${Math.ceil(
+            breaker.retryInMs() / 1000
+          )}s.`
+        );
+      }
+      // Let through while the circuit is open, this request is its probe
+      const probe = breaker.isOpen;
+
+      let failure: JinaError;
+      try {
+        const response = await limiter.run(async () => {
+          const start = performance.now();
+          let status = "error";
+          try {
+            const response = await this.fetchWithTimeout(
+              url,
+              {
+                method: "POST",
+                headers: headers,
+                body: JSON.stringify(body),
+              },
+              async (response) => ({
+                ok: response.ok,
+                status: response.status,
+                statusText: response.statusText,
+                retryAfter: response.headers.get("retry-after"),
+                text: await response.text(),
+              }),
+              signal
+            );
+            status = `${response.status}`;
+            return response;
+          } finally {
+            this.options.metrics.jinaRequests.observe(
+              { endpoint, status },
+              (performance.now() - start) / 1000
+            );
+          }
+        }, signal);
+
+        if (response.status < 500) {
+          // The endpoint is up, even if this request was rejected
+          breaker.recordSuccess();
+        } else {
+          breaker.recordFailure();
+        }
+
+        if (!response.ok) {
+          failure = errorFromResponse(
+            endpoint,
+            response.status,
+            response.statusText,
+            response.text,
+            parseRetryAfter(response.retryAfter),
+            this.options.clientKey
+          );
+        } else if (!response.text) {
+          // Check if response body is empty before parsing JSON
+          failure = new UpstreamError(
+            `Jina ${endpoint} API returned an empty response.`
+          );
+        } else {
+          const raw = parseJson<T>(endpoint, response.text);
+          if (options.usage) {
+            // Billed by Jina even when the response turns out malformed
+            const tokens = billedTokens(raw, options.usage);
+            this.options.metrics.tokens.inc({ endpoint }, tokens);
+            if (context) {
+              this.options.usage.record(
+                context.sessionId,
+                context.tool,
+                endpoint,
+                tokens,
+                this.usesClientKey
+              );
+              context.tokens += tokens;
+            }
+          }
+          const result = parseResponse(endpoint, options.schema, raw);
+          await this.store(endpoint, key, result);
+          return result;
+        }
+      } catch (error: any) {
+        if (error instanceof SchemaMismatchError) throw error;
+        // A cancelled request says nothing about the endpoint's health
+        if (error instanceof CancelledError) {
+          if (probe) breaker.releaseProbe();
+          throw error;
+        }
+        // Network errors and timeouts
+        breaker.recordFailure();
+        failure =
+          error instanceof JinaError
+            ? error
+            : new NetworkError(
+                `Could not reach the Jina ${endpoint} API: ${error.message}`
+              );
+      }
+
+      logger.warn(`Attempt ${attempt} failed for ${url}`, {
+        endpoint,
+        error: failure,
+      });
+      if (!failure.retryable || attempt >= maxAttempts) {
+        throw failure;
+      }
+      const delay = retryDelay(
+        attempt,
+        backoff,
+        failure instanceof RateLimitError ? failure.retryAfterMs : undefined
+      );
+      // Jina asked for a longer wait than we block for; its hint tells the
+      // agent when to try again
+      if (delay === undefined) throw failure;
+      this.options.metrics.jinaRetries.inc({ endpoint });
+      await sleep(delay, signal);
+    }
+  }
+
+  async search(
+    query: string,
+    options: Partial<Omit<SearchWebRequest, "query">> = {}
+  ): Promise<SearchResponse> {
+    const { urlPolicy } = this.options;
+    const headers: Record<string, string> = { ...this.headers };
+    if (options.site) {
+      const site = normalizeSite(options.site);
+      const violation = urlPolicy?.hostViolation(site);
+      if (violation) {
+        throw new PolicyViolationError(
+          `Refusing to search ${site}: ${violation}`
+        );
+      }
+      headers["X-Site"] = site;
+    }
+    if (options.return_format) {
+      headers["X-Return-Format"] = options.return_format;
+    }
+    if (options.retain_images) {
+      headers["X-Retain-Images"] = options.retain_images;
+      // Captions are only useful when images are kept in the content
+      if (options.retain_images === "all" && options.with_generated_alt) {
+        headers["X-With-Generated-Alt"] = "true";
+      }
+    }
+
+    const body: { q: string; num?: number; page?: number } = { q: query };
+    if (options.count !== undefined) body.num = options.count;
+    if (options.page !== undefined && options.page > 1) {
+      body.page = options.page;
+    }
+
+    const response = await this.call("search", body, headers, {
+      schema: SearchResponseSchema,
+      usage: (r) => r.data?.reduce((sum, item) => sum + item.usage.tokens, 0),
+    });
+    if (!urlPolicy) return response;
+    // Results the policy refuses would invite agents to read them next
+    const data = response.data.filter((item) => urlPolicy.allows(item.url));
+    if (data.length < response.data.length) {
+      logger.info("Dropped search results refused by the URL policy", {
+        dropped: response.data.length - data.length,
+      });
+    }
+    return { ...response, data };
+  }
+
+  async read(
+    url: string,
+    options: Omit<ReadWebPageRequest, "url"> = {}
+  ): Promise<ReaderResponse> {
+    const { urlPolicy } = this.options;
+    const target = urlPolicy ? await urlPolicy.check(url) : url;
+    const response = await this.call(
+      "reader",
+      { url: target },
+      this.readerHeaders(options),
+      {
+        schema: ReaderResponseSchema,
+        noCache: options.no_cache,
+        usage: (r) => r.data?.usage?.tokens,
+      }
+    );
+    // The page may have redirected somewhere the policy refuses
+    if (
+      urlPolicy &&
+      response.data.url &&
+      !urlPolicy.allows(response.data.url)
+    ) {
+      throw new PolicyViolationError(
+        `Refusing to return ${target}: it redirected to ${response.data.url}, which the URL policy does not allow`
+      );
+    }
+    return response;
+  }
+
+  async ground(
+    statement: string,
+    options: Partial<Omit<GroundingRequest, "statement">> = {}
+  ): Promise<GroundingResponse> {
+    const body: GroundingRequest = {
+      statement,
+      deepdive: options.deepdive ?? false,
+    };
+    if (options.references && options.references.length > 0) {
+      const { urlPolicy } = this.options;
+      body.references = urlPolicy
+        ? await Promise.all(
+            options.references.map((reference) => urlPolicy.check(reference))
+          )
+        : options.references;
+    }
+    return this.call("grounding", body, this.headers, {
+      schema: GroundingResponseSchema,
+      usage: (r) => r.data?.usage?.tokens,
+    });
+  }
+
+  async embed(
+    texts: string[],
+    options: EmbeddingOptions
+  ): Promise<EmbeddingResponse> {
+    return this.call(
+      "embeddings",
+      {
+        input: texts,
+        ...EmbeddingOptionsSchema.parse(options),
+      },
+      this.headers,
+      {
+        schema: EmbeddingResponseSchema,
+        usage: (r) => ("usage" in r ? r.usage?.total_tokens : undefined),
+      }
+    );
+  }
+
+  async segment(content: string): Promise<SegmenterResponse> {
+    return this.call(
+      "segmenter",
+      { content, return_tokens: false, return_chunks: false },
+      this.headers,
+      { schema: SegmenterResponseSchema, usage: (r) => r.usage?.tokens }
+    );
+  }
+
+  async rerank(
+    query: string,
+    documents: string[],
+    topN: number
+  ): Promise<RerankResponse> {
+    return this.call(
+      "rerank",
+      {
+        model: JINA_RERANK_MODEL,
+        query,
+        documents,
+        top_n: topN,
+        return_documents: false,
+      },
+      this.headers,
+      { schema: RerankResponseSchema, usage: (r) => r.usage?.total_tokens }
+    );
+  }
+
+  private partitioned(key: string): string {
+    const { cachePartition } = this.options;
+    return cachePartition ? `${cachePartition}:${key}` : key;
+  }
+
+  /** Translate Reader options into the r.jina.ai request headers. */
+  private readerHeaders(
+    options: Omit<ReadWebPageRequest, "url">
+  ): Record<string, string> {
+    const headers: Record<string, string> = { ...this.headers };
+    if (options.format && options.format !== "Default") {
+      headers["X-Return-Format"] = options.format.toLowerCase();
+    }
+    if (options.with_links) headers["X-With-Links-Summary"] = "true";
+    if (options.with_images) headers["X-With-Images-Summary"] = "true";
+    if (options.with_generated_alt) headers["X-With-Generated-Alt"] = "true";
+    if (options.no_cache) headers["X-No-Cache"] = "true";
+    return headers;
+  }
+
+  private limiterFor(endpoint: JinaEndpoint): RateLimiter {
+    let limiter = this.limiters.get(endpoint);
+    if (!limiter) {
+      const { maxConcurrency, requestsPerMinute } = this.options.resilience;
+      limiter = new RateLimiter(maxConcurrency, requestsPerMinute);
+      this.limiters.set(endpoint, limiter);
+    }
+    return limiter;
+  }
+
+  private breakerFor(endpoint: JinaEndpoint): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      const { circuitFailureThreshold, circuitResetMs } =
+        this.options.resilience;
+      breaker = new CircuitBreaker(circuitFailureThreshold, circuitResetMs);
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Download a screenshot produced by the Reader and encode it for MCP,
+   * aborting once the context's tool call is cancelled.
+   */
+  async fetchImage(
+    imageUrl: string
+  ): Promise<z.infer<typeof ImageContentSchema>> {
+    return this.fetchWithTimeout(
+      imageUrl,
+      { method: "GET" },
+      async (response) => {
+        if (!response.ok) {
+          throw new UpstreamError(
+            `Failed to download screenshot from ${imageUrl}: ${response.status} ${response.statusText}`
+          );
+        }
+        const buffer = Buffer.from(await response.arrayBuffer());
+        return {
+          data: buffer.toString("base64"),
+          mimeType: response.headers.get("content-type") || "image/png",
+        };
+      },
+      usageContext.getStore()?.signal
+    );
+  }
+
+  /**
+   * Send a request and read the whole body, aborting if the response has not
+   * been received within the configured timeout or `signal` aborts.
+   */
+  private async fetchWithTimeout<T>(
+    url: string,
+    init: { method: string; headers?: Record<string, string>; body?: string },
+    read: (response: FetchResponse) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const { timeoutMs } = this.options.resilience;
+    const controller = new AbortController();
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => controller.abort(), timeoutMs)
+        : undefined;
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: signal
+          ? AbortSignal.any([controller.signal, signal])
+          : controller.signal,
+      });
+      return await read(response);
+    } catch (error: any) {
+      throwIfCancelled(signal);
+      if (controller.signal.aborted) {
+        throw new TimeoutError(
+          `Request to ${url} timed out after ${timeoutMs}ms.`
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/** Parse a response body, reporting invalid JSON as a schema mismatch. */
+function parseJson<T>(endpoint: string, text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new SchemaMismatchError(
+      `Jina ${endpoint} API returned a response that is not valid JSON.`
+    );
+  }
+}
+
+/** Validate a response against its schema, reporting mismatches distinctly from network failures. */
+function parseResponse<S extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: S,
+  raw: unknown
+): z.infer<S> {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw SchemaMismatchError.fromZod(endpoint, parsed.error);
+  }
+  return parsed.data;
+}
+
+/**
+ * Reduce a site restriction to a bare hostname, accepting either a domain
+ * ("docs.python.org") or a URL ("https://docs.python.org/3/").
+ */
+export function normalizeSite(site: string): string {
+  const trimmed = site.trim();
+  let hostname: string;
+  try {
+    hostname = new URL(
+      /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+    ).hostname;
+  } catch {
+    throw new InvalidInputError(`Invalid site restriction: "${site}".`);
+  }
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(hostname)) {
+    throw new InvalidInputError(`Invalid site restriction: "${site}".`);
+  }
+  return hostname.toLowerCase();
+}
@@ -0,0 +1,105 @@
+/**
+ * Lexical relevance and similarity of chunks: BM25 scores, which catch the
+ * exact terms (error codes, function names) embeddings tend to blur, and
+ * word shingle overlap to recognize near-identical chunks.
+ */
+
+// BM25 term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words per shingle when comparing chunks
+const SHINGLE_SIZE = 3;
+
+// Shingle overlap above which two chunks count as the same passage
+export const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+/** Lowercased words and numbers; underscores keep identifiers like `ERR_TIMEOUT` whole. */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/** BM25 score of every chunk for the query, in chunk order. */
+export function bm25Scores(query: string, chunks: string[]): number[] {
+  const terms = [...new Set(tokenize(query))];
+  const documents = chunks.map(tokenize);
+  if (terms.length === 0 || documents.length === 0) {
+    return chunks.map(() => 0);
+  }
+  const averageLength =
+    documents.reduce((sum, words) => sum + words.length, 0) /
+      documents.length || 1;
+
+  const frequencies = documents.map((words) => {
+    const counts = new Map<string, number>();
+    for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+    return counts;
+  });
+  const idf = new Map(
+    terms.map((term) => {
+      const containing = frequencies.filter((counts) =>
+        counts.has(term)
+      ).length;
+      return [
+        term,
+        Math.log(
+          1 + (documents.length - containing + 0.5) / (containing + 0.5)
+        ),
+      ];
+    })
+  );
+
+  return frequencies.map((counts, i) => {
+    const lengthRatio = documents[i].length / averageLength;
+    return terms.reduce((score, term) => {
+      const tf = counts.get(term) ?? 0;
+      if (tf === 0) return score;
+      return (
+        score +
+        (idf.get(term)! * tf * (BM25_K1 + 1)) /
+          (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio))
+      );
+    }, 0);
+  });
+}
+
+/** The word shingles of a text, or its words when it is shorter than a shingle. */
+export function shingles(text: string): Set<string> {
+  const words = tokenize(text);
+  if (words.length < SHINGLE_SIZE) return new Set(words);
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+/** Jaccard similarity of two shingle sets, from 0 (disjoint) to 1 (identical). */
+export function shingleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const shingle of a) if (b.has(shingle)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Drop chunks that repeat one kept before them, within a group or in an
+ * earlier one, e.g. the same boilerplate on several search results.
+ */
+export function dropNearDuplicates(groups: string[][]): string[][] {
+  const kept: Set<string>[] = [];
+  return groups.map((chunks) =>
+    chunks.filter((chunk) => {
+      const own = shingles(chunk);
+      if (
+        kept.some(
+          (other) => shingleSimilarity(own, other) >= NEAR_DUPLICATE_SIMILARITY
+        )
+      ) {
+        return false;
+      }
+      kept.push(own);
+      return true;
+    })
+  );
+}
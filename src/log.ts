@@ -0,0 +1,172 @@
+/**
+ * Leveled, structured logging. Records are written as JSON lines (or plain
+ * text for local use) and carry the session, request and tool they were
+ * logged for. Secrets are always redacted and user content unless enabled.
+ */
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// MCP uses the syslog severities, lowest first
+export const LOG_LEVELS: readonly LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+export const LOG_FORMATS = ["json", "text"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export type LogRecord = {
+  time: string;
+  level: LoggingLevel;
+  msg: string;
+  sessionId?: string;
+  requestId?: string | number;
+  tool?: string;
+} & LogFields;
+
+export type LogOptions = {
+  level: LoggingLevel;
+  format: LogFormat;
+  /** Log queries, statements and other text sent by clients verbatim. */
+  userContent: boolean;
+};
+
+/** Where a record was logged from, added to every record logged below it. */
+export type LogContext = {
+  sessionId?: string;
+  requestId?: string | number;
+  tool?: string;
+};
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+// In stdio mode stdout carries the JSON-RPC stream, so diagnostics go to stderr.
+let toStderr = false;
+
+let options: LogOptions = {
+  level: "info",
+  format: "json",
+  userContent: false,
+};
+
+const sinks = new Set<(record: LogRecord) => void>();
+
+/** Send diagnostics to stderr instead of stdout, e.g. for the stdio transport. */
+export function logToStderr(enabled: boolean): void {
+  toStderr = enabled;
+}
+
+export function configureLogging(update: Partial<LogOptions>): void {
+  options = { ...options, ...update };
+}
+
+/** Whether a level is at least as severe as a threshold. */
+export function atLeast(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/** Run `fn` with `context` added to everything it logs. */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Receive every record, redacted but regardless of the configured level, for
+ * instance to forward it to an MCP client. Returns a function removing the sink.
+ */
+export function addLogSink(sink: (record: LogRecord) => void): () => void {
+  sinks.add(sink);
+  return () => sinks.delete(sink);
+}
+
+// Field names whose string values are credentials
+const SECRET_FIELD = /authorization|api[-_]?key|token|secret|password|cookie/i;
+
+// Field names holding text sent by clients
+const CONTENT_FIELDS = new Set([
+  "query",
+  "queries",
+  "statement",
+  "question",
+  "text",
+  "texts",
+]);
+
+// Credentials embedded in messages, such as a failed request's headers
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/Bearer\s+[\w.~+/=-]+/g, "Bearer [redacted]"],
+  [/\bjina_[A-Za-z0-9]{8,}/g, "jina_[redacted]"],
+];
+
+function scrub(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text
+  );
+}
+
+function redact(key: string, value: unknown): unknown {
+  if (typeof value === "string" && SECRET_FIELD.test(key)) return "[redacted]";
+  if (CONTENT_FIELDS.has(key) && !options.userContent) {
+    if (typeof value === "string") return `[${value.length} chars]`;
+    if (Array.isArray(value)) return `[${value.length} items]`;
+  }
+  if (value instanceof Error) {
+    const { code } = value as { code?: unknown };
+    return {
+      name: value.name,
+      message: scrub(value.message),
+      ...(typeof code === "string" ? { code } : {}),
+    };
+  }
+  if (typeof value === "string") return scrub(value);
+  if (Array.isArray(value)) return value.map((item) => redact("", item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, redact(k, v)])
+    );
+  }
+  return value;
+}
+
+function format(record: LogRecord): string {
+  if (options.format === "json") return JSON.stringify(record);
+  const { time, level, msg, ...fields } = record;
+  const details = Object.entries(fields)
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(" ");
+  return `${time} ${level.toUpperCase()} ${msg}${details ? ` ${details}` : ""}`;
+}
+
+function write(level: LoggingLevel, msg: string, fields: LogFields = {}): void {
+  const record = {
+    time: new Date().toISOString(),
+    level,
+    msg: scrub(msg),
+    ...logContext.getStore(),
+    ...(redact("", fields) as LogFields),
+  } as LogRecord;
+  for (const sink of sinks) sink(record);
+  if (!atLeast(level, options.level)) return;
+  const line = format(record);
+  if (toStderr) {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+}
+
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warning", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+};
@@ -0,0 +1,176 @@
+/**
+ * Process metrics in the Prometheus text exposition format: tool calls, Jina
+ * request latencies and retries, cache lookups and token usage.
+ */
+import express, { Request, RequestHandler, Response } from "express";
+import { SessionRegistry } from "./sessions.js";
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from a cache-speed call to a long deep research
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/["\\\n]/g, "\\$&")}"`)
+    .join(",");
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => sample(this.name, key, value)),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private buckets = DURATION_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const [key, { counts, sum, count }] of this.series) {
+      const bucket = (le: string) => labelKey({ le }) + (key ? `,${key}` : "");
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          sample(`${this.name}_bucket`, bucket(`${bound}`), counts[i])
+        );
+      });
+      lines.push(sample(`${this.name}_bucket`, bucket("+Inf"), count));
+      lines.push(sample(`${this.name}_sum`, key, sum));
+      lines.push(sample(`${this.name}_count`, key, count));
+    }
+    return lines;
+  }
+}
+
+/** The metrics a server process records. */
+export class Metrics {
+  readonly toolCalls = new Counter(
+    "jina_mcp_tool_calls_total",
+    "MCP tool calls by tool and outcome."
+  );
+  readonly toolDuration = new Histogram(
+    "jina_mcp_tool_call_duration_seconds",
+    "Duration of MCP tool calls."
+  );
+  readonly jinaRequests = new Histogram(
+    "jina_mcp_jina_request_duration_seconds",
+    "Duration of Jina API requests by endpoint and HTTP status, per attempt."
+  );
+  readonly jinaRetries = new Counter(
+    "jina_mcp_jina_retries_total",
+    "Jina API requests retried after a failed attempt."
+  );
+  readonly cacheLookups = new Counter(
+    "jina_mcp_cache_lookups_total",
+    "Response cache lookups by namespace and result."
+  );
+  readonly tokens = new Counter(
+    "jina_mcp_jina_tokens_total",
+    "Jina tokens spent, by endpoint."
+  );
+
+  private all: Metric[] = [
+    this.toolCalls,
+    this.toolDuration,
+    this.jinaRequests,
+    this.jinaRetries,
+    this.cacheLookups,
+    this.tokens,
+  ];
+
+  /** Render every metric, plus point-in-time gauges. */
+  render(gauges: { name: string; help: string; value: number }[] = []): string {
+    const lines = this.all.flatMap((metric) => metric.render());
+    for (const { name, help, value } of gauges) {
+      lines.push(
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} gauge`,
+        `${name} ${value}`
+      );
+    }
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+/**
+ * Mount `/metrics`, including the sessions of the app's transport, behind the
+ * same authentication as the MCP endpoints.
+ */
+export function mountMetricsRoute(
+  app: express.Express,
+  metrics: Metrics,
+  sessions: SessionRegistry,
+  guard: RequestHandler[]
+): void {
+  app.get("/metrics", ...guard, (req: Request, res: Response) => {
+    res.type("text/plain; version=0.0.4").send(
+      metrics.render([
+        {
+          name: "jina_mcp_sessions_active",
+          help: "Open MCP sessions.",
+          value: sessions.size,
+        },
+        {
+          name: "jina_mcp_requests_in_flight",
+          help: "MCP requests being handled.",
+          value: sessions.pendingRequests,
+        },
+      ])
+    );
+  });
+}
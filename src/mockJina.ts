@@ -0,0 +1,318 @@
+/**
+ * A local stand-in for the Jina APIs that returns deterministic fixtures
+ * matching schemas.ts, for running the server and its tools offline.
+ *
+ * Any request whose body contains `mock-status-<code>` (e.g. in a URL or
+ * query) fails with that HTTP status, so error handling can be exercised.
+ */
+import express, { NextFunction, Request, Response } from "express";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+import { JinaUrls } from "./jinaClient.js";
+
+/** Endpoint URLs of a mock server listening at `baseUrl`. */
+export function mockJinaUrls(baseUrl: string): JinaUrls {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    search: `${base}/s/`,
+    reader: `${base}/r/`,
+    grounding: `${base}/g/`,
+    embeddings: `${base}/v1/embeddings`,
+    rerank: `${base}/v1/rerank`,
+    segmenter: `${base}/segment/`,
+  };
+}
+
+// A 1x1 transparent PNG returned for every screenshot
+const PIXEL_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+/** FNV-1a hash, used to derive stable fixture values from inputs. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function tokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+/** Hashed bag-of-words vector, so texts sharing words are similar. */
+function embedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const terms = words(text);
+  if (terms.length === 0) vector[0] = 1;
+  for (const term of terms) vector[hash(term) % dimensions] += 1;
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return vector.map((v) => Number((v / norm).toFixed(6)));
+}
+
+/** Fraction of the query's words that appear in the document. */
+function overlap(query: string, document: string): number {
+  const terms = new Set(words(query));
+  if (terms.size === 0) return 0;
+  const present = new Set(words(document));
+  let hits = 0;
+  for (const term of terms) if (present.has(term)) hits++;
+  return Number((hits / terms.size).toFixed(4));
+}
+
+function pageFixture(url: string): { title: string; content: string } {
+  let host = url;
+  let topic = "";
+  try {
+    const parsed = new URL(url);
+    host = parsed.hostname;
+    topic = words(parsed.pathname).join(" ");
+  } catch {
+    // Not a URL; use it verbatim
+  }
+  const subject = topic || host;
+  const title = `Mock page: ${subject}`;
+  const content = `# ${title}
+
+This page stands in for ${url}, served by the mock Jina Reader.
+
+## Overview
+
+${subject} is described here in deterministic fixture text. The same URL always returns the same content, so tools and tests behave the same on every run.
+
+## Details
+
+- First point about ${subject}
+- Second point about ${subject}
+- Source host: ${host}
+
+## Example
+
+\`\`\`
+GET ${url}
+\`\`\`
+`;
+  return { title, content };
+}
+
+function searchFixture(query: string, site: string | undefined, index: number) {
+  const slug = words(query).join("-") || "query";
+  const url = `https://${site || "example.com"}/${slug}/${index}`;
+  const content = `# ${query}
+
+Result ${index} for "${query}" from the mock Jina Search API. It discusses ${query} in deterministic fixture text.`;
+  return {
+    title: `Result ${index} for ${query}`,
+    description: `Mock search result ${index} for "${query}".`,
+    url,
+    content,
+    usage: { tokens: tokens(content) },
+  };
+}
+
+/** Create the Express app serving the mock endpoints. */
+export function createMockJinaApp(): express.Express {
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+
+  // Every endpoint requires a bearer token, like the real APIs
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (
+      req.method === "POST" &&
+      !/^Bearer\s+\S+/.test(req.get("authorization") ?? "")
+    ) {
+      res.status(401).json({
+        code: 401,
+        name: "AuthenticationRequiredError",
+        message: "Missing bearer token",
+      });
+      return;
+    }
+    const forced = /mock-status-(\d{3})/.exec(JSON.stringify(req.body ?? {}));
+    if (req.method === "POST" && forced) {
+      const status = Number(forced[1]);
+      if (status === 429) res.set("Retry-After", "1");
+      res.status(status).json({
+        code: status,
+        name: "MockError",
+        message: `Mock failure with status ${status}`,
+      });
+      return;
+    }
+    next();
+  });
+
+  app.post("/r/", (req: Request, res: Response) => {
+    const url = String(req.body.url ?? "");
+    const { title, content } = pageFixture(url);
+    const format = req.get("x-return-format");
+    const base = `${req.protocol}://${req.get("host")}`;
+    const data: Record<string, unknown> = {
+      title,
+      description: `Mock description of ${url}`,
+      url,
+      content,
+      usage: { tokens: tokens(content) },
+    };
+    if (format === "screenshot" || format === "pageshot") {
+      data.content = "";
+      data[`${format}Url`] = `${base}/screenshots/${hash(url)}.png`;
+    }
+    if (req.get("x-with-links-summary") === "true") {
+      data.links = { [`About ${title}`]: `${url.replace(/\/+$/, "")}/about` };
+    }
+    if (req.get("x-with-images-summary") === "true") {
+      data.images = {
+        [`Image 1 of ${title}`]: `${base}/screenshots/${hash(url)}.png`,
+      };
+    }
+    res.json({ code: 200, status: 20000, data });
+  });
+
+  app.get("/screenshots/:name", (_req: Request, res: Response) => {
+    res.type("image/png").send(PIXEL_PNG);
+  });
+
+  app.post("/s/", (req: Request, res: Response) => {
+    const query = String(req.body.q ?? "");
+    const num = Math.min(Math.max(Number(req.body.num) || 5, 1), 20);
+    const page = Math.max(Number(req.body.page) || 1, 1);
+    const site = req.get("x-site");
+    const data = Array.from({ length: num }, (_, i) =>
+      searchFixture(query, site, (page - 1) * num + i + 1)
+    );
+    res.json({ code: 200, status: 20000, data });
+  });
+
+  app.post("/g/", (req: Request, res: Response) => {
+    const statement = String(req.body.statement ?? "");
+    const references: string[] =
+      Array.isArray(req.body.references) && req.body.references.length > 0
+        ? req.body.references
+        : [1, 2, 3].map((i) => `https://example.com/evidence/${i}`);
+    const factuality = (hash(statement) % 101) / 100;
+    res.json({
+      code: 200,
+      status: 20000,
+      data: {
+        factuality,
+        result: factuality >= 0.5,
+        reason: `Mock grounding of "${statement}" with factuality ${factuality}.`,
+        references: references.map((url, i) => ({
+          url,
+          keyQuote: `Quote ${i + 1} about ${statement}`,
+          isSupportive: (hash(url + statement) & 1) === 0,
+        })),
+        usage: { tokens: tokens(statement) * 100 },
+      },
+    });
+  });
+
+  app.post("/v1/embeddings", (req: Request, res: Response) => {
+    const input: string[] = Array.isArray(req.body.input)
+      ? req.body.input
+      : [String(req.body.input ?? "")];
+    const dimensions = Number(req.body.dimensions) || 1024;
+    const total = input.reduce((sum, text) => sum + tokens(text), 0);
+    res.json({
+      model: req.body.model ?? "jina-embeddings-v3",
+      object: "list",
+      data: input.map((text, index) => ({
+        object: "embedding",
+        index,
+        embedding: embedding(text, dimensions),
+      })),
+      usage: { total_tokens: total, prompt_tokens: total },
+    });
+  });
+
+  app.post("/v1/rerank", (req: Request, res: Response) => {
+    const query = String(req.body.query ?? "");
+    const documents: string[] = Array.isArray(req.body.documents)
+      ? req.body.documents
+      : [];
+    const topN = Number(req.body.top_n) || documents.length;
+    const results = documents
+      .map((text, index) => ({ index, relevance_score: overlap(query, text) }))
+      .sort(
+        (a, b) => b.relevance_score - a.relevance_score || a.index - b.index
+      )
+      .slice(0, topN);
+    const total = documents.reduce(
+      (sum, text) => sum + tokens(text),
+      tokens(query)
+    );
+    res.json({
+      model: req.body.model,
+      usage: { total_tokens: total },
+      results,
+    });
+  });
+
+  app.post("/segment/", (req: Request, res: Response) => {
+    const content = String(req.body.content ?? "");
+    res.json({
+      num_tokens: tokens(content),
+      tokenizer: "cl100k_base",
+      usage: { tokens: 0 },
+    });
+  });
+
+  return app;
+}
+
+export type MockJinaServer = {
+  /** Base URL of the server, e.g. http://127.0.0.1:41234 */
+  url: string;
+  urls: JinaUrls;
+  close(): Promise<void>;
+};
+
+/** Start the mock server; port 0 picks a free port. */
+export function startMockJina(
+  port = 0,
+  host = "127.0.0.1"
+): Promise<MockJinaServer> {
+  return new Promise((resolve, reject) => {
+    const server: Server = createMockJinaApp().listen(port, host);
+    server.once("error", reject);
+    server.once("listening", () => {
+      const address = server.address() as AddressInfo;
+      const url = `http://${host}:${address.port}`;
+      resolve({
+        url,
+        urls: mockJinaUrls(url),
+        close: () =>
+          new Promise((done, fail) =>
+            server.close((error) => (error ? fail(error) : done()))
+          ),
+      });
+    });
+  });
+}
+
+// Run standalone with `npm run mock`
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  const port = Number(process.env.PORT) || 8787;
+  startMockJina(port, process.env.HOST || "127.0.0.1").then(({ url, urls }) => {
+    console.log(`Mock Jina server listening on ${url}`);
+    console.log("Point the MCP server at it with:");
+    console.log(`  JINA_SEARCH_URL=${urls.search}`);
+    console.log(`  JINA_READER_URL=${urls.reader}`);
+    console.log(`  JINA_GROUNDING_URL=${urls.grounding}`);
+    console.log(`  JINA_EMBEDDING_URL=${urls.embeddings}`);
+    console.log(`  JINA_RERANK_URL=${urls.rerank}`);
+    console.log(`  JINA_SEGMENTER_URL=${urls.segmenter}`);
+  });
+}
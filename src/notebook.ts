@@ -0,0 +1,162 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./log.js";
+
+export type NotebookChunk = { text: string; embedding: number[] };
+
+export type NotebookPage = {
+  url: string;
+  title: string;
+  /** Which tool added the page: a full read or a search result. */
+  source: "read-webpage" | "search";
+  addedAt: string;
+  chunks: NotebookChunk[];
+};
+
+/**
+ * Vector store of the pages read during one session. Pages are keyed by URL,
+ * so reading a page again replaces its chunks.
+ */
+export class Notebook {
+  private pages = new Map<string, NotebookPage>();
+  // Indexing runs in the background of the tool that read the page; queries
+  // wait for it so freshly read pages are always searchable.
+  private pending = new Set<Promise<void>>();
+  // Saves are chained so concurrent changes never write the file at once
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private onChange?: (notebook: Notebook) => Promise<void>) {}
+
+  static fromPages(
+    pages: NotebookPage[],
+    onChange?: (notebook: Notebook) => Promise<void>
+  ): Notebook {
+    const notebook = new Notebook(onChange);
+    for (const page of pages) notebook.pages.set(page.url, page);
+    return notebook;
+  }
+
+  async add(page: NotebookPage): Promise<void> {
+    if (page.chunks.length === 0) return;
+    // A search snippet never replaces a page that was read in full
+    const existing = this.pages.get(page.url);
+    if (existing?.source === "read-webpage" && page.source === "search") return;
+    this.pages.set(page.url, page);
+    await this.persist();
+  }
+
+  /** Run an indexing task in the background, logging rather than throwing failures. */
+  track(task: Promise<void>): void {
+    const tracked = task
+      .catch((error: any) => {
+        logger.warn("Failed to index page in notebook", { error });
+      })
+      .finally(() => this.pending.delete(tracked));
+    this.pending.add(tracked);
+  }
+
+  /** Wait until all background indexing has finished. */
+  async settled(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  list(): NotebookPage[] {
+    return [...this.pages.values()];
+  }
+
+  /** All chunks with the page they came from, for scoring against a query. */
+  chunks(): { page: NotebookPage; chunk: NotebookChunk }[] {
+    return this.list().flatMap((page) =>
+      page.chunks.map((chunk) => ({ page, chunk }))
+    );
+  }
+
+  /** Stop saving changes, once the saves already under way have finished. */
+  async detach(): Promise<void> {
+    this.onChange = undefined;
+    await this.saving;
+  }
+
+  async clear(): Promise<number> {
+    const count = this.pages.size;
+    this.pages.clear();
+    await this.persist();
+    return count;
+  }
+
+  private persist(): Promise<void> {
+    const onChange = this.onChange;
+    if (!onChange) return Promise.resolve();
+    this.saving = this.saving
+      .then(() => onChange(this))
+      .catch((error: any) => {
+        logger.warn("Failed to save notebook", { error });
+      });
+    return this.saving;
+  }
+}
+
+/**
+ * Notebooks by MCP session ID. When a directory is configured each notebook
+ * is persisted as `<sessionId>.json` and reloaded on first access, which lets
+ * the stdio session pick up its notebook after a restart. HTTP session IDs
+ * are random and never reused, so their files are deleted on release.
+ */
+export class NotebookStore {
+  private notebooks = new Map<string, Promise<Notebook>>();
+
+  constructor(private directory?: string) {}
+
+  get(sessionId: string): Promise<Notebook> {
+    let notebook = this.notebooks.get(sessionId);
+    if (!notebook) {
+      notebook = this.load(sessionId);
+      this.notebooks.set(sessionId, notebook);
+    }
+    return notebook;
+  }
+
+  /** Forget a closed session's notebook and delete its file. */
+  async release(sessionId: string): Promise<void> {
+    const notebook = this.notebooks.get(sessionId);
+    if (!notebook) return;
+    this.notebooks.delete(sessionId);
+    if (!this.directory) return;
+    try {
+      await (await notebook).detach();
+      await rm(this.filePath(sessionId), { force: true });
+    } catch (error: any) {
+      logger.warn("Failed to delete notebook", { sessionId, error });
+    }
+  }
+
+  private async load(sessionId: string): Promise<Notebook> {
+    if (!this.directory) return new Notebook();
+    const file = this.filePath(sessionId);
+    const save = (notebook: Notebook) => this.save(file, notebook);
+    try {
+      const pages = JSON.parse(await readFile(file, "utf8")) as NotebookPage[];
+      return Notebook.fromPages(pages, save);
+    } catch {
+      return new Notebook(save);
+    }
+  }
+
+  private async save(file: string, notebook: Notebook): Promise<void> {
+    const pages = notebook.list();
+    if (pages.length === 0) {
+      await rm(file, { force: true });
+      return;
+    }
+    await mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(pages));
+    await rename(temp, file);
+  }
+
+  private filePath(sessionId: string): string {
+    // Session IDs come from clients, so keep them from escaping the directory
+    const safe = sessionId.replace(/[^a-zA-Z0-9_-]/g, "_");
+    return path.join(this.directory!, `${safe}.json`);
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Prompt templates that walk the model through the search, read-webpage and
+ * fact-check tools in a fixed order.
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// Prompt arguments always arrive as strings, so numbers and lists are parsed
+// from text.
+
+const MAX_PROMPT_SOURCES = 10;
+const MAX_COMPARED_PAGES = 5;
+
+/** Split a comma or whitespace separated list of URLs, dropping duplicates. */
+function splitUrls(text: string): string[] {
+  return [...new Set(text.split(/[\s,]+/).filter(Boolean))];
+}
+
+function isHttpUrl(text: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(text).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const ResearchPromptArgs = {
+  question: z.string().min(1).describe("The question to research."),
+  sources: z
+    .string()
+    .refine(
+      (value) => {
+        const count = Number(value);
+        return (
+          Number.isInteger(count) && count >= 1 && count <= MAX_PROMPT_SOURCES
+        );
+      },
+      { message: `Must be a whole number from 1 to ${MAX_PROMPT_SOURCES}.` }
+    )
+    .optional()
+    .describe(
+      `Number of pages to read, from 1 to ${MAX_PROMPT_SOURCES}. Defaults to 3.`
+    ),
+};
+
+const VerifyClaimsPromptArgs = {
+  text: z.string().min(1).describe("Text whose factual claims to verify."),
+};
+
+const SummarizeUrlPromptArgs = {
+  url: z
+    .string()
+    .refine(isHttpUrl, { message: "Must be an http(s) URL." })
+    .describe("URL of the page to summarize."),
+  focus: z
+    .string()
+    .optional()
+    .describe("Aspect of the page to focus the summary on."),
+};
+
+const ComparePagesPromptArgs = {
+  urls: z
+    .string()
+    .refine(
+      (value) => {
+        const urls = splitUrls(value);
+        return (
+          urls.length >= 2 &&
+          urls.length <= MAX_COMPARED_PAGES &&
+          urls.every(isHttpUrl)
+        );
+      },
+      {
+        message: `Must list 2 to ${MAX_COMPARED_PAGES} distinct http(s) URLs.`,
+      }
+    )
+    .describe(
+      `2 to ${MAX_COMPARED_PAGES} URLs to compare, separated by commas or new lines.`
+    ),
+  aspect: z
+    .string()
+    .optional()
+    .describe("What to compare the pages on, e.g. pricing or methodology."),
+};
+
+/** A prompt consisting of a single user message. */
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+function researchPrompt(question: string, sources = 3): GetPromptResult {
+  return userPrompt(
+    "Research a question and answer it with citations",
+    `Research the following question and answer it with citations.
+
+Question: ${question}
+
+Work through these steps in order:
+1. Call the \`search\` tool with a focused query for the question. If the results are off-topic, rephrase the query and search again.
+2. Pick the ${sources} most relevant and authoritative results and call \`read-webpage\` on each URL, passing the question as \`query\`.
+3. Draft an answer using only what the pages say. Call \`fact-check\` on the draft's key claims with \`batch: true\`, passing the URLs you read as \`references\`.
+4. Drop or correct every claim that the fact check does not support.
+
+Answer with a numbered citation such as [1] after each claim, followed by a "Sources" list of the numbered URLs. If the sources do not settle the question, say so.`
+  );
+}
+
+function verifyClaimsPrompt(text: string): GetPromptResult {
+  return userPrompt(
+    "Verify the factual claims in a text",
+    `Verify the factual claims in the text below.
+
+Text:
+"""
+${text}
+"""
+
+Work through these steps in order:
+1. Call \`fact-check\` with the whole text as \`statement\` and \`batch: true\` to check each claim separately.
+2. For every claim that is not clearly supported, call \`search\` for evidence and then \`read-webpage\` on the most relevant result to see what the source actually says.
+3. Where that evidence suggests a different verdict, call \`fact-check\` again on the claim alone, passing the URLs you read as \`references\`.
+
+Report a table with one row per claim: the claim, the verdict (supported, refuted or unverifiable) and the source URLs. End with a corrected version of the text.`
+  );
+}
+
+function summarizeUrlPrompt(url: string, focus?: string): GetPromptResult {
+  return userPrompt(
+    "Summarize a webpage",
+    `Summarize the webpage at ${url}${focus ? `, focusing on ${focus}` : ""}.
+
+Work through these steps in order:
+1. Call \`read-webpage\` with \`url\` set to ${url}${
+      focus ? ` and \`query\` set to "${focus}"` : ""
+    }.
+2. If the content is empty or clearly truncated, call \`search\` with the page title to find another copy or coverage of the same content, and read that instead.
+3. Call \`fact-check\` on the central claims of your summary with \`batch: true\`, passing ${url} as \`references\`, and leave out anything the page does not support.
+
+Give the page title, a one-paragraph summary and a bullet list of key points, citing the URL.`
+  );
+}
+
+function comparePagesPrompt(urls: string[], aspect?: string): GetPromptResult {
+  return userPrompt(
+    "Compare several webpages",
+    `Compare the following pages${aspect ? ` on ${aspect}` : ""}:
+${urls.map((url, i) => `${i + 1}. ${url}`).join("\n")}
+
+Work through these steps in order:
+1. Call \`read-webpage\` on each URL${
+      aspect ? `, passing "${aspect}" as \`query\`` : ""
+    }.
+2. Where the pages disagree on a fact, call \`fact-check\` on each competing statement, passing all of the URLs as \`references\`. If that is inconclusive, call \`search\` for an independent source and read it with \`read-webpage\`.
+
+Present what each page says side by side, list where they agree and disagree, and say which page is better supported on each disagreement. Refer to the pages by their numbers above.`
+  );
+}
+
+/** Register the research prompt templates on a server. */
+export function registerPrompts(server: McpServer): void {
+  server.prompt(
+    "research",
+    "Research a question with search, read-webpage and fact-check, and answer with numbered citations.",
+    ResearchPromptArgs,
+    ({ question, sources }) =>
+      researchPrompt(question, sources ? Number(sources) : undefined)
+  );
+
+  server.prompt(
+    "verify-claims",
+    "Check every factual claim in a text with fact-check, backed by search and read-webpage.",
+    VerifyClaimsPromptArgs,
+    ({ text }) => verifyClaimsPrompt(text)
+  );
+
+  server.prompt(
+    "summarize-url",
+    "Summarize a webpage read with read-webpage, checking its central claims.",
+    SummarizeUrlPromptArgs,
+    ({ url, focus }) => summarizeUrlPrompt(url, focus)
+  );
+
+  server.prompt(
+    "compare-pages",
+    "Compare several webpages side by side and resolve disagreements with fact-check.",
+    ComparePagesPromptArgs,
+    ({ urls, aspect }) => comparePagesPrompt(splitUrls(urls), aspect)
+  );
+}
@@ -0,0 +1,296 @@
+import { z } from "zod";
+import { cosineSimilarity, embedTexts } from "./embeddings.js";
+import { CancelledError } from "./errors.js";
+import { JinaClient } from "./jinaClient.js";
+import {
+  NEAR_DUPLICATE_SIMILARITY,
+  bm25Scores,
+  shingleSimilarity,
+  shingles,
+} from "./lexical.js";
+import { logger } from "./log.js";
+import { throwIfCallCancelled } from "./usage.js";
+
+export const RankingMethodSchema = z.enum([
+  "rerank",
+  "embeddings",
+  "hybrid",
+  "lexical",
+]);
+export type RankingMethod = z.infer<typeof RankingMethodSchema>;
+
+export const FusionMethodSchema = z.enum(["rrf", "weighted"]);
+export type FusionMethod = z.infer<typeof FusionMethodSchema>;
+
+export type HybridOptions = {
+  /** Reciprocal rank fusion, or a weighted sum of min-max scaled scores. */
+  fusion: FusionMethod;
+  /** Weight of embedding similarity against BM25, from 0 to 1. */
+  semanticWeight: number;
+  /** Maximal Marginal Relevance trade-off, from 0 (relevance only) to 1. */
+  diversity: number;
+};
+
+export const DEFAULT_HYBRID_OPTIONS: HybridOptions = {
+  fusion: "rrf",
+  semanticWeight: 0.5,
+  diversity: 0.3,
+};
+
+// Number of chunks returned per page or search result
+export const TOP_CHUNKS = 5;
+
+// Reciprocal rank fusion constant; larger values flatten the top ranks
+const RRF_K = 60;
+
+export type ScoredChunk = { chunk: string; score: number };
+
+/**
+ * Rank chunks by cosine similarity to the query embedding. Chunks without an
+ * embedding score 0; without a query embedding the original order is kept.
+ */
+export async function rankByEmbeddings(
+  client: JinaClient,
+  queryEmbedding: number[] | undefined,
+  chunks: string[]
+): Promise<ScoredChunk[]> {
+  const chunkEmbeddings = await embedTexts(client, chunks);
+  if (chunkEmbeddings.length !== chunks.length) {
+    logger.error("Embedding count mismatch", {
+      expected: chunks.length,
+      received: chunkEmbeddings.length,
+    });
+  }
+  if (!queryEmbedding || chunkEmbeddings.length !== chunks.length) {
+    return chunks.map((chunk) => ({ chunk, score: 0 }));
+  }
+  return chunks
+    .map((chunk, i) => ({
+      chunk,
+      score: cosineSimilarity(queryEmbedding, chunkEmbeddings[i]),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Rank chunks with the Jina reranker, highest relevance first. */
+export async function rankByReranker(
+  client: JinaClient,
+  query: string,
+  chunks: string[],
+  topN: number
+): Promise<ScoredChunk[]> {
+  const response = await client.rerank(query, chunks, topN);
+  return response.results
+    .filter((r) => r.index >= 0 && r.index < chunks.length)
+    .sort((a, b) => b.relevance_score - a.relevance_score)
+    .map((r) => ({ chunk: chunks[r.index], score: r.relevance_score }));
+}
+
+/** Scale scores to [0, 1]; equal scores become 1, or 0 when all are 0. */
+function scaled(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((score) =>
+    max > min ? (score - min) / (max - min) : max > 0 ? 1 : 0
+  );
+}
+
+/** Position of each score when sorted from highest, 0 for the best. */
+function ranks(scores: number[]): number[] {
+  const positions = new Array<number>(scores.length);
+  scores
+    .map((_, i) => i)
+    .sort((a, b) => scores[b] - scores[a])
+    .forEach((index, rank) => (positions[index] = rank));
+  return positions;
+}
+
+/** Combine the embedding and BM25 scores of the same chunks into one relevance. */
+export function fuseScores(
+  semantic: number[],
+  lexical: number[],
+  options: Pick<HybridOptions, "fusion" | "semanticWeight">
+): number[] {
+  const weight = options.semanticWeight;
+  if (options.fusion === "weighted") {
+    const semanticScaled = scaled(semantic);
+    const lexicalScaled = scaled(lexical);
+    return semanticScaled.map(
+      (score, i) => weight * score + (1 - weight) * lexicalScaled[i]
+    );
+  }
+  const semanticRanks = ranks(semantic);
+  const lexicalRanks = ranks(lexical);
+  // Chunks sharing no term with the query get no lexical vote
+  return semantic.map(
+    (_, i) =>
+      weight / (RRF_K + semanticRanks[i] + 1) +
+      (lexical[i] > 0 ? (1 - weight) / (RRF_K + lexicalRanks[i] + 1) : 0)
+  );
+}
+
+/**
+ * Pick up to `topN` chunks by Maximal Marginal Relevance: each pick weighs
+ * its relevance against its similarity to the chunks already picked, and
+ * near duplicates of a pick are never picked. Similarity defaults to word
+ * shingle overlap.
+ */
+export function diversify(
+  chunks: string[],
+  relevance: number[],
+  topN: number,
+  diversity: number,
+  similarity?: (a: number, b: number) => number
+): ScoredChunk[] {
+  const normalized = scaled(relevance);
+  const shingleSets = chunks.map(shingles);
+  const similar =
+    similarity ??
+    ((a: number, b: number) =>
+      shingleSimilarity(shingleSets[a], shingleSets[b]));
+
+  let candidates = chunks.map((_, i) => i);
+  const picked: number[] = [];
+  while (picked.length < topN && candidates.length > 0) {
+    let best = candidates[0];
+    let bestScore = -Infinity;
+    for (const i of candidates) {
+      const redundancy =
+        diversity > 0 && picked.length > 0
+          ? Math.max(...picked.map((j) => similar(i, j)))
+          : 0;
+      const score = (1 - diversity) * normalized[i] - diversity * redundancy;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    picked.push(best);
+    candidates = candidates.filter(
+      (i) =>
+        i !== best &&
+        shingleSimilarity(shingleSets[i], shingleSets[best]) <
+          NEAR_DUPLICATE_SIMILARITY
+    );
+  }
+  return picked.map((i) => ({ chunk: chunks[i], score: relevance[i] }));
+}
+
+/** Rank chunks by BM25 alone, for instance when embeddings are unavailable. */
+export function rankLexical(
+  query: string,
+  chunks: string[],
+  topN: number,
+  diversity: number
+): ScoredChunk[] {
+  return diversify(chunks, bm25Scores(query, chunks), topN, diversity);
+}
+
+/** Query and chunk embeddings, or undefined when they cannot all be computed. */
+async function rankingEmbeddings(
+  client: JinaClient,
+  chunks: string[],
+  getQueryEmbedding: () => Promise<number[] | undefined>
+): Promise<{ query: number[]; chunks: number[][] } | undefined> {
+  try {
+    const [query, embedded] = await Promise.all([
+      getQueryEmbedding(),
+      embedTexts(client, chunks),
+    ]);
+    if (query && embedded.length === chunks.length) {
+      return { query, chunks: embedded };
+    }
+    logger.warn("Missing embeddings, ranking chunks lexically", {
+      expected: chunks.length,
+      received: embedded.length,
+    });
+  } catch (error: any) {
+    if (error instanceof CancelledError) throw error;
+    logger.warn("Embedding failed, ranking chunks lexically", { error });
+  }
+  return undefined;
+}
+
+/**
+ * Rank chunks by fusing BM25 with embedding similarity, then diversify the
+ * picks. Falls back to BM25 alone when the embeddings cannot be computed.
+ */
+export async function rankHybrid(
+  client: JinaClient,
+  query: string,
+  chunks: string[],
+  getQueryEmbedding: () => Promise<number[] | undefined>,
+  topN: number,
+  options: HybridOptions
+): Promise<ScoredChunk[]> {
+  const lexical = bm25Scores(query, chunks);
+  const embeddings =
+    options.semanticWeight > 0
+      ? await rankingEmbeddings(client, chunks, getQueryEmbedding)
+      : undefined;
+  if (!embeddings) return diversify(chunks, lexical, topN, options.diversity);
+
+  const semantic = embeddings.chunks.map((embedding) =>
+    cosineSimilarity(embeddings.query, embedding)
+  );
+  return diversify(
+    chunks,
+    fuseScores(semantic, lexical, options),
+    topN,
+    options.diversity,
+    (a, b) => cosineSimilarity(embeddings.chunks[a], embeddings.chunks[b])
+  );
+}
+
+/**
+ * Select the chunks most relevant to the query. Reranking falls back to
+ * embedding similarity if the reranker call fails, and embedding similarity
+ * to BM25 if embedding fails; a cancelled call does not fall back. The query
+ * embedding is requested lazily so callers ranking many results can share it.
+ */
+export async function selectTopChunks(
+  client: JinaClient,
+  query: string,
+  chunks: string[],
+  method: RankingMethod,
+  getQueryEmbedding: () => Promise<number[] | undefined>,
+  topN = TOP_CHUNKS,
+  hybrid = DEFAULT_HYBRID_OPTIONS
+): Promise<ScoredChunk[]> {
+  if (chunks.length === 0) return [];
+  throwIfCallCancelled();
+  if (method === "lexical") {
+    return rankLexical(query, chunks, topN, hybrid.diversity);
+  }
+  if (method === "hybrid") {
+    return rankHybrid(client, query, chunks, getQueryEmbedding, topN, hybrid);
+  }
+  if (method === "rerank") {
+    try {
+      return await rankByReranker(client, query, chunks, topN);
+    } catch (error: any) {
+      if (error instanceof CancelledError) throw error;
+      logger.warn("Reranking failed, falling back to embedding similarity", {
+        error,
+      });
+    }
+  }
+  try {
+    const ranked = await rankByEmbeddings(
+      client,
+      await getQueryEmbedding(),
+      chunks
+    );
+    return ranked.slice(0, topN);
+  } catch (error: any) {
+    if (error instanceof CancelledError) throw error;
+    logger.warn("Embedding failed, ranking chunks lexically", { error });
+    return rankLexical(query, chunks, topN, 0);
+  }
+}
+
+/** Memoize an async computation so it runs at most once. */
+export function once<T>(fn: () => Promise<T>): () => Promise<T> {
+  let promise: Promise<T> | undefined;
+  return () => (promise ??= fn());
+}
@@ -0,0 +1,194 @@
+/**
+ * Building blocks for calling the Jina APIs reliably: backoff delays,
+ * Retry-After parsing, a per-endpoint rate limiter and a circuit breaker.
+ */
+import { CancelledError } from "./errors.js";
+
+export type BackoffOptions = {
+  /** Delay before the first retry, doubled on every further attempt. */
+  baseDelayMs: number;
+  /** Upper bound for a single delay; a longer Retry-After is not waited for. */
+  maxDelayMs: number;
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`. A server-provided
+ * Retry-After takes precedence when present; `undefined` means it asks for a
+ * longer wait than `maxDelayMs`, and retrying any sooner would be refused.
+ */
+export function retryDelay(
+  attempt: number,
+  options: BackoffOptions,
+  retryAfterMs?: number
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= options.maxDelayMs ? retryAfterMs : undefined;
+  }
+  const ceiling = Math.min(
+    options.baseDelayMs * 2 ** (attempt - 1),
+    options.maxDelayMs
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/** Parse a Retry-After header given either in seconds or as an HTTP date. */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/** Wait `ms` milliseconds, rejecting with a CancelledError if `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function cancelled(): CancelledError {
+  return new CancelledError("The request was cancelled.");
+}
+
+/**
+ * Limits the number of requests in flight and, optionally, the number started
+ * per minute. Callers beyond either limit wait for a free slot, unless their
+ * signal aborts first.
+ */
+export class RateLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  // Start times of the requests within the last minute
+  private starts: number[] = [];
+
+  constructor(
+    private maxConcurrent: number,
+    private requestsPerMinute = 0
+  ) {}
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw cancelled();
+    while (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve, reject) => {
+        const wake = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          this.waiting = this.waiting.filter((waiter) => waiter !== wake);
+          reject(cancelled());
+        };
+        this.waiting.push(wake);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+    this.active++;
+
+    if (this.requestsPerMinute <= 0) return;
+    try {
+      for (;;) {
+        const now = Date.now();
+        this.starts = this.starts.filter((start) => now - start < 60_000);
+        if (this.starts.length < this.requestsPerMinute) {
+          this.starts.push(now);
+          return;
+        }
+        await sleep(this.starts[0] + 60_000 - now, signal);
+      }
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+/**
+ * Fails fast while an endpoint is down. After `failureThreshold` consecutive
+ * failures the circuit opens; once `resetMs` has passed a single probe request
+ * is let through, which closes the circuit again if it succeeds.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | undefined;
+  private probing = false;
+
+  constructor(
+    private failureThreshold: number,
+    private resetMs: number
+  ) {}
+
+  /** Whether a request may be sent now. Claims the probe when half-open. */
+  allowRequest(now = Date.now()): boolean {
+    if (this.openedAt === undefined) return true;
+    if (!this.probing && now - this.openedAt >= this.resetMs) {
+      this.probing = true;
+      return true;
+    }
+    return false;
+  }
+
+  get isOpen(): boolean {
+    return this.openedAt !== undefined;
+  }
+
+  /** Milliseconds until the next probe is allowed. */
+  retryInMs(now = Date.now()): number {
+    if (this.openedAt === undefined) return 0;
+    return Math.max(0, this.openedAt + this.resetMs - now);
+  }
+
+  /**
+   * Give up a claimed probe without judging the endpoint, such as when the
+   * probe was cancelled, so the next request may probe instead.
+   */
+  releaseProbe(): void {
+    this.probing = false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.probing = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    // A threshold of 0 disables the breaker
+    if (this.failureThreshold <= 0) return;
+    this.failures++;
+    if (this.probing || this.failures >= this.failureThreshold) {
+      this.openedAt = now;
+      this.probing = false;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { createHash } from "node:crypto";
+import { logger } from "./log.js";
+
+/** URI of the resource holding the full Reader output for a page. */
+export function pageUri(url: string): string {
+  return `jina://page/${encodeURIComponent(url)}`;
+}
+
+/** URI of the resource holding the raw search results for a query. */
+export function searchUri(query: string): string {
+  return `jina://search/${encodeURIComponent(query)}`;
+}
+
+export type FetchedPage = {
+  url: string;
+  title: string;
+  fetchedAt: string;
+};
+
+/** Sends a `resources/updated` notification to one subscribed session. */
+export type UpdateNotifier = (uri: string) => Promise<void>;
+
+/**
+ * Tracks the pages each session has fetched, the content last seen for every
+ * page, and which sessions subscribed to which resource URIs, so that a page
+ * whose content changed on refresh can be announced to its subscribers.
+ */
+export class ResourceRegistry {
+  private pages = new Map<string, Map<string, FetchedPage>>();
+  // Content hash per page URL, shared across sessions and kept in LRU order
+  private hashes = new Map<string, string>();
+  private subscriptions = new Map<string, Map<string, UpdateNotifier>>();
+
+  constructor(private maxTrackedPages = 1000) {}
+
+  /**
+   * Record that a session fetched a page. `added` is true for the session's
+   * first fetch of the URL and `changed` when the content differs from the
+   * last fetch by any session.
+   */
+  recordPage(
+    sessionId: string,
+    page: { url: string; title: string },
+    content: string
+  ): { added: boolean; changed: boolean } {
+    let pages = this.pages.get(sessionId);
+    if (!pages) {
+      pages = new Map();
+      this.pages.set(sessionId, pages);
+    }
+    const added = !pages.has(page.url);
+    pages.set(page.url, { ...page, fetchedAt: new Date().toISOString() });
+
+    const hash = createHash("sha256").update(content).digest("hex");
+    const previous = this.hashes.get(page.url);
+    this.hashes.delete(page.url);
+    this.hashes.set(page.url, hash);
+    if (this.hashes.size > this.maxTrackedPages) {
+      this.hashes.delete(this.hashes.keys().next().value!);
+    }
+    return { added, changed: previous !== undefined && previous !== hash };
+  }
+
+  /** Pages fetched by a session, most recent first. */
+  list(sessionId: string): FetchedPage[] {
+    const pages = [...(this.pages.get(sessionId)?.values() ?? [])];
+    return pages.sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt));
+  }
+
+  subscribe(uri: string, sessionId: string, notify: UpdateNotifier): void {
+    let subscribers = this.subscriptions.get(uri);
+    if (!subscribers) {
+      subscribers = new Map();
+      this.subscriptions.set(uri, subscribers);
+    }
+    subscribers.set(sessionId, notify);
+  }
+
+  unsubscribe(uri: string, sessionId: string): void {
+    const subscribers = this.subscriptions.get(uri);
+    subscribers?.delete(sessionId);
+    if (subscribers?.size === 0) this.subscriptions.delete(uri);
+  }
+
+  /** Notify every session subscribed to a URI, logging rather than throwing failures. */
+  async notifyUpdated(uri: string): Promise<void> {
+    const subscribers = [...(this.subscriptions.get(uri)?.values() ?? [])];
+    await Promise.all(
+      subscribers.map((notify) =>
+        notify(uri).catch((error: any) => {
+          logger.warn("Failed to send resource update", { uri, error });
+        })
+      )
+    );
+  }
+
+  /** Forget a closed session's pages and subscriptions. */
+  release(sessionId: string): void {
+    this.pages.delete(sessionId);
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri, sessionId);
+    }
+  }
+}
@@ -0,0 +1,1321 @@
+/**
+ * The MCP server: tool, resource and prompt definitions on top of the Jina
+ * client and the shared server context.
+ */
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  LoggingLevel,
+  ReadResourceResult,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  EmbeddingOptionsSchema,
+  GroundingSchema,
+  ReadWebPageSchema,
+  SearchResponse,
+  SearchWebSchema,
+} from "../schemas.js";
+import {
+  NOTEBOOK_QUERY_OPTIONS,
+  STDIO_SESSION_ID,
+  ServerContext,
+  chunkPage,
+  chunkPages,
+  indexPage,
+  sessionNotebook,
+  trackPage,
+  withSessionUsage,
+} from "./context.js";
+import { formatBatchRead, readPages } from "./batchRead.js";
+import { deepResearch, formatResearch } from "./deepResearch.js";
+import { cosineSimilarity, embedAllTexts, embedTexts } from "./embeddings.js";
+import { InvalidInputError, UpstreamError } from "./errors.js";
+import {
+  MAX_BATCH_CLAIMS,
+  claimsOutput,
+  formatClaimTable,
+  formatGrounding,
+  splitClaims,
+  verdictOutput,
+} from "./factCheck.js";
+import { addLogSink, atLeast, logger } from "./log.js";
+import { registerPrompts } from "./prompts.js";
+import { dropNearDuplicates } from "./lexical.js";
+import {
+  FusionMethod,
+  FusionMethodSchema,
+  HybridOptions,
+  RankingMethodSchema,
+  ScoredChunk,
+  TOP_CHUNKS,
+  once,
+  selectTopChunks,
+} from "./ranking.js";
+import { pageUri } from "./resources.js";
+import {
+  FactCheckOutputSchema,
+  ReadWebpageOutput,
+  ReadWebpageOutputSchema,
+  SearchOutput,
+  SearchOutputSchema,
+} from "./toolOutputs.js";
+import {
+  McpContentSchema,
+  instrumented,
+  metered,
+  toolError,
+} from "./toolResults.js";
+
+// --- Tool Input Schemas ---
+
+// Schema for the Search tool input
+// Tuning of hybrid and lexical ranking, shared by the tools that rank chunks
+const HybridRankingToolOptions = {
+  fusion: FusionMethodSchema.optional().describe(
+    "With hybrid ranking, how to combine keyword (BM25) and embedding scores: reciprocal rank fusion (rrf) or a weighted sum of scaled scores (weighted). Defaults to the server configuration."
+  ),
+  semantic_weight: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(
+      "With hybrid ranking, weight of embedding similarity against keyword matching, from 0 (keywords only) to 1 (embeddings only). Defaults to the server configuration."
+    ),
+  diversity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(
+      "With hybrid or lexical ranking, how strongly to prefer chunks unlike those already selected, from 0 (relevance only) to 1. Defaults to the server configuration."
+    ),
+};
+
+const SearchInputSchema = {
+  query: z.string().describe("The search query to search the web for."),
+  count: SearchWebSchema.shape.count.describe(
+    "Number of results to return (1-20)."
+  ),
+  page: SearchWebSchema.shape.page.describe(
+    "Page of results to return, starting at 1. Use to go past the first page."
+  ),
+  // `.url()` is not supported by Gemini, the domain is validated in searchJina
+  site: SearchWebSchema.shape.site.describe(
+    "Restrict results to this domain, e.g. docs.python.org."
+  ),
+  return_format: SearchWebSchema.shape.return_format.describe(
+    "Format of each result's content."
+  ),
+  retain_images: SearchWebSchema.shape.retain_images.describe(
+    "Whether to keep images in the result content."
+  ),
+  with_generated_alt: SearchWebSchema.shape.with_generated_alt.describe(
+    "Generate captions for retained images that lack alt text."
+  ),
+  ranking: RankingMethodSchema.optional().describe(
+    "How to select the most relevant chunks of each result: the Jina Reranker, embedding similarity, keywords and embeddings combined (hybrid) or keywords only (lexical). Defaults to the server configuration."
+  ),
+  top_k: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(TOP_CHUNKS)
+    .describe("Number of chunks to return per result."),
+  ...HybridRankingToolOptions,
+};
+
+// Schema for the Fact Check tool input
+const FactCheckInputSchema = {
+  statement: z
+    .string()
+    .describe("The statement to verify for factual accuracy."),
+  deepdive: GroundingSchema.shape.deepdive.describe(
+    "Consult more sources for a slower but more thorough check."
+  ),
+  references: GroundingSchema.shape.references.describe(
+    "URLs to use as grounding references instead of searching the web."
+  ),
+  batch: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Split the statement into individual claims and check each one separately."
+    ),
+};
+
+// Schema for the Read Webpage tool input
+const ReadWebpageInputSchema = {
+  url: z.string().describe("The URL of the webpage to read."), // `.url()` is not supported by Gemini
+  query: z
+    .string()
+    .optional()
+    .describe(
+      "Query used to select the most relevant parts of the webpage content. Defaults to the page title."
+    ),
+  format: ReadWebPageSchema.shape.format.describe(
+    "Format of the extracted content. Screenshot captures the first screen and Pageshot the full page, both returned as an image."
+  ),
+  with_links: ReadWebPageSchema.shape.with_links.describe(
+    "Also return a summary of all links found on the page."
+  ),
+  with_images: ReadWebPageSchema.shape.with_images.describe(
+    "Also return a summary of all images found on the page."
+  ),
+  with_generated_alt: ReadWebPageSchema.shape.with_generated_alt.describe(
+    "Generate alt text for images that lack it."
+  ),
+  no_cache: ReadWebPageSchema.shape.no_cache.describe(
+    "Bypass the Reader cache and fetch the page fresh."
+  ),
+  ranking: RankingMethodSchema.optional().describe(
+    "How to select the most relevant chunks of the page: the Jina Reranker, embedding similarity, keywords and embeddings combined (hybrid) or keywords only (lexical). Defaults to the server configuration."
+  ),
+  top_k: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(TOP_CHUNKS)
+    .describe("Number of chunks to return."),
+  ...HybridRankingToolOptions,
+};
+
+// Upper bound on URLs accepted by one read-webpages call
+const MAX_BATCH_URLS = 20;
+
+// Schema for the Read Webpages tool input
+const ReadWebpagesInputSchema = {
+  urls: z
+    .array(z.string())
+    .min(1)
+    .max(MAX_BATCH_URLS)
+    .describe(
+      "The URLs of the webpages to read. URLs differing only in their fragment are read once."
+    ),
+  query: z
+    .string()
+    .describe("Query used to select the most relevant parts of the pages."),
+  scope: z
+    .enum(["page", "global"])
+    .optional()
+    .default("page")
+    .describe(
+      "Rank chunks within each page and return the best of every page, or across all pages and return the best overall."
+    ),
+  top_k: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .describe(
+      "Number of chunks to return per page, or overall with the global scope. Defaults to 5 per page or 10 overall."
+    ),
+  no_cache: ReadWebPageSchema.shape.no_cache.describe(
+    "Bypass the Reader cache and fetch the pages fresh."
+  ),
+  ranking: RankingMethodSchema.optional().describe(
+    "How to select the most relevant chunks. Defaults to the server configuration."
+  ),
+  ...HybridRankingToolOptions,
+};
+
+// Options shared by the Embed and Similarity tools
+const EmbeddingToolOptions = {
+  model: EmbeddingOptionsSchema.shape.model.describe(
+    "Jina embedding model to use."
+  ),
+  task: EmbeddingOptionsSchema.shape.task.describe(
+    "Task adapter: retrieval.query / retrieval.passage for asymmetric search, text-matching for symmetric similarity, classification or separation for clustering."
+  ),
+  dimensions: EmbeddingOptionsSchema.shape.dimensions.describe(
+    "Truncate embeddings to this many dimensions (32-1024)."
+  ),
+  normalized: EmbeddingOptionsSchema.shape.normalized.describe(
+    "Scale embeddings to unit length."
+  ),
+  late_chunking: EmbeddingOptionsSchema.shape.late_chunking.describe(
+    "Embed the texts as consecutive chunks of one document, so each embedding reflects its surrounding context."
+  ),
+};
+
+// Upper bound on texts accepted by the Embed and Similarity tools
+const MAX_TOOL_TEXTS = 100;
+
+// Schema for the Embed tool input
+const EmbedInputSchema = {
+  texts: z
+    .array(z.string())
+    .min(1)
+    .max(MAX_TOOL_TEXTS)
+    .describe("The texts to embed."),
+  ...EmbeddingToolOptions,
+};
+
+// Schema for the Similarity tool input
+const SimilarityInputSchema = {
+  texts: z
+    .array(z.string())
+    .min(2)
+    .max(MAX_TOOL_TEXTS)
+    .describe("The texts to compare pairwise."),
+  threshold: z
+    .number()
+    .min(-1)
+    .max(1)
+    .optional()
+    .describe(
+      "Also list the pairs whose similarity is at or above this score, e.g. 0.9 to find near-duplicates."
+    ),
+  ...EmbeddingToolOptions,
+};
+
+// Schema for the Notebook Query tool input
+const NotebookQueryInputSchema = {
+  query: z
+    .string()
+    .describe("What to look for across the pages read in this session."),
+  top_k: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(5)
+    .describe("Number of chunks to return."),
+};
+
+// Limits on how far a single deep-research call may go
+const MAX_RESEARCH_DEPTH = 3;
+const MAX_RESEARCH_BREADTH = 10;
+
+// Schema for the Deep Research tool input
+const DeepResearchInputSchema = {
+  question: z.string().describe("The question to research."),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RESEARCH_DEPTH)
+    .optional()
+    .default(2)
+    .describe(
+      "Number of search rounds. Rounds after the first search for the parts of the question the evidence does not cover yet; use 1 to skip follow-up queries."
+    ),
+  breadth: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RESEARCH_BREADTH)
+    .optional()
+    .default(3)
+    .describe("Number of new pages to read in each round."),
+  top_k: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(8)
+    .describe("Number of evidence passages to return across all pages."),
+  ranking: RankingMethodSchema.optional().describe(
+    "How to rank passages across the pages. Defaults to the server configuration."
+  ),
+  ...HybridRankingToolOptions,
+};
+
+// --- Formatting Helpers ---
+
+/** Render the Reader's links/images summaries as a separate content section. */
+function formatPageAssets(
+  links: Record<string, string> | undefined,
+  images: Record<string, string> | undefined
+): string | undefined {
+  const sections: string[] = [];
+  if (links && Object.keys(links).length > 0) {
+    sections.push(
+      `Links:\n${Object.entries(links)
+        .map(([text, href]) => `- [${text}](${href})`)
+        .join("\n")}`
+    );
+  }
+  if (images && Object.keys(images).length > 0) {
+    sections.push(
+      `Images:\n${Object.entries(images)
+        .map(([alt, src]) => `- ![${alt}](${src})`)
+        .join("\n")}`
+    );
+  }
+  return sections.length > 0 ? sections.join("\n\n") : undefined;
+}
+
+/** The Reader's links/images summaries as structured tool output. */
+function pageAssetsOutput(
+  links: Record<string, string> | undefined,
+  images: Record<string, string> | undefined
+): Pick<ReadWebpageOutput, "links" | "images"> {
+  return {
+    ...(links
+      ? {
+          links: Object.entries(links).map(([text, url]) => ({ text, url })),
+        }
+      : {}),
+    ...(images
+      ? { images: Object.entries(images).map(([alt, url]) => ({ alt, url })) }
+      : {}),
+  };
+}
+
+/** Hybrid ranking options of a tool call, over the server's defaults. */
+function hybridOptions(
+  defaults: HybridOptions,
+  args: { fusion?: FusionMethod; semantic_weight?: number; diversity?: number }
+): HybridOptions {
+  return {
+    fusion: args.fusion ?? defaults.fusion,
+    semanticWeight: args.semantic_weight ?? defaults.semanticWeight,
+    diversity: args.diversity ?? defaults.diversity,
+  };
+}
+
+/** Decode a URI template variable, which arrives percent-encoded. */
+function templateVariable(value: string | string[]): string {
+  const text = Array.isArray(value) ? value.join(",") : value;
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    throw new InvalidInputError(`Malformed resource URI component: ${text}`);
+  }
+}
+
+// --- MCP Server Setup ---
+
+/**
+ * Create an MCP server with all Jina tools registered. HTTP transports create
+ * one server per session, since a server can only be connected to a single
+ * transport at a time.
+ */
+export function createServer(serverContext: ServerContext): McpServer {
+  // Calls still running when the transport closes are cancelled
+  const closed = new AbortController();
+  const context: ServerContext = {
+    ...serverContext,
+    sessionSignal: closed.signal,
+  };
+  const { client, usage, resources } = context;
+  const defaultRanking = context.config.rankingMethod;
+
+  const server = new McpServer(
+    {
+      name: "jina-search-tools-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+
+  // --- Define Tools ---
+
+  // 1. Search Tool (using s.jina.ai)
+  server.registerTool(
+    "search",
+    {
+      description:
+        "Search the web for information, for example recent information.",
+      inputSchema: SearchInputSchema,
+      outputSchema: SearchOutputSchema,
+    },
+    metered<typeof SearchInputSchema>(
+      context,
+      "search",
+      async (
+        {
+          query,
+          ranking = defaultRanking,
+          top_k,
+          fusion,
+          semantic_weight,
+          diversity,
+          ...options
+        },
+        extra
+      ): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing search tool", { query });
+        try {
+          const response = await client.search(query, options);
+
+          // Ensure response.data is an array before proceeding
+          if (response.data.length === 0) {
+            return {
+              content: [{ type: "text", text: "No search results found." }],
+              structuredContent: {
+                query,
+                page: options.page,
+                results: [],
+              } satisfies SearchOutput,
+            };
+          }
+
+          // Number results across pages so page 2 continues where page 1 ended
+          const offset = (options.page - 1) * options.count;
+
+          // Embed the query at most once, and only if embedding ranking is used
+          const getQueryEmbedding = once(async () => {
+            const queryEmbeddingArray = await embedTexts(client, [
+              query.trim(),
+            ]);
+            return queryEmbeddingArray[0];
+          });
+
+          const pages = await chunkPages(
+            context,
+            response.data.map((item) => item.content || "")
+          );
+          response.data.forEach((item, index) =>
+            indexPage(context, extra.sessionId, {
+              url: item.url,
+              title: item.title,
+              source: "search",
+              chunks: pages[index],
+            })
+          );
+          // Passages repeated across results, such as syndicated text, are
+          // only shown for the first result carrying them
+          const distinct = dropNearDuplicates(pages);
+          const hybrid = hybridOptions(context.config.hybridRanking, {
+            fusion,
+            semantic_weight,
+            diversity,
+          });
+
+          // Select the most relevant chunks of each result
+          const scored = await Promise.all(
+            distinct.map((validChunks) =>
+              selectTopChunks(
+                client,
+                query,
+                validChunks,
+                ranking,
+                getQueryEmbedding,
+                top_k,
+                hybrid
+              )
+            )
+          );
+
+          const processed = response.data.map(
+            (item: SearchResponse["data"][number], index: number) => {
+              if (distinct[index].length === 0) {
+                return `Result ${offset + index + 1}:\nTitle: ${item.title}\nURL: ${
+                  item.url
+                }\nRelevant Content: \n\n`;
+              }
+              const bestChunks = scored[index].map((s) => s.chunk).join("\n\n");
+              return `Result ${offset + index + 1}:\nTitle: ${item.title}\nURL: ${
+                item.url
+              }\nRelevant Content:\n${bestChunks}\n---`;
+            }
+          );
+
+          const combinedContent = processed.join("\n\n");
+
+          // Validate output before returning
+          return McpContentSchema.parse({
+            content: [{ type: "text", text: combinedContent }],
+            structuredContent: {
+              query,
+              page: options.page,
+              results: response.data.map((item, index) => ({
+                position: offset + index + 1,
+                title: item.title,
+                url: item.url,
+                ...(item.description ? { description: item.description } : {}),
+                chunks: scored[index].map(({ chunk, score }) => ({
+                  text: chunk,
+                  score,
+                })),
+              })),
+            } satisfies SearchOutput,
+          });
+        } catch (error: any) {
+          logger.error("Error executing search tool", { error });
+          return toolError("Search", error);
+        }
+      }
+    )
+  );
+
+  // 2. Fact Check Tool (using g.jina.ai)
+  server.registerTool(
+    "fact-check",
+    {
+      description:
+        "Verify the accuracy of a statement by checking it against reliable sources.",
+      inputSchema: FactCheckInputSchema,
+      outputSchema: FactCheckOutputSchema,
+    },
+    metered<typeof FactCheckInputSchema>(
+      context,
+      "fact-check",
+      async ({
+        statement,
+        batch,
+        ...options
+      }): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing fact-check tool", { statement });
+        try {
+          if (batch) {
+            const claims = splitClaims(statement);
+            if (claims.length === 0) {
+              return {
+                content: [{ type: "text", text: "No claims found to check." }],
+                structuredContent: { statement, claims: [] },
+              };
+            }
+            const checked = claims.slice(0, MAX_BATCH_CLAIMS);
+            const results = await Promise.allSettled(
+              checked.map((claim) => client.ground(claim, options))
+            );
+            const failures = results.filter(
+              (result): result is PromiseRejectedResult =>
+                result.status === "rejected"
+            );
+            if (failures.length === results.length) {
+              // Nothing was checked, so report the failure rather than a table
+              return toolError("Fact check", failures[0].reason);
+            }
+            let outputText = formatClaimTable(checked, results);
+            if (claims.length > checked.length) {
+              outputText += `\n\nOnly the first ${MAX_BATCH_CLAIMS} of ${claims.length} claims were checked.`;
+            }
+            return McpContentSchema.parse({
+              content: [{ type: "text", text: outputText }],
+              structuredContent: {
+                statement,
+                claims: claimsOutput(checked, results),
+              },
+            });
+          }
+
+          const response = await client.ground(statement, options);
+          const outputText = formatGrounding(statement, response.data);
+
+          // Validate output before returning
+          return McpContentSchema.parse({
+            content: [{ type: "text", text: outputText }],
+            structuredContent: {
+              statement,
+              ...verdictOutput(response.data),
+            },
+          });
+        } catch (error: any) {
+          logger.error("Error executing fact-check tool", { error });
+          return toolError("Fact check", error);
+        }
+      }
+    )
+  );
+
+  // 3. Read Webpage Tool (using r.jina.ai)
+  server.registerTool(
+    "read-webpage",
+    {
+      description: "Read a webpage and extract its content.",
+      inputSchema: ReadWebpageInputSchema,
+      outputSchema: ReadWebpageOutputSchema,
+    },
+    metered<typeof ReadWebpageInputSchema>(
+      context,
+      "read-webpage",
+      async (
+        {
+          url,
+          query,
+          ranking = defaultRanking,
+          top_k,
+          fusion,
+          semantic_weight,
+          diversity,
+          ...options
+        },
+        extra
+      ): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing read-webpage tool", { url });
+        try {
+          const response = await client.read(url, options);
+          const assets = formatPageAssets(
+            response.data.links,
+            response.data.images
+          );
+          const assetsOutput = pageAssetsOutput(
+            response.data.links,
+            response.data.images
+          );
+
+          if (
+            options.format === "Screenshot" ||
+            options.format === "Pageshot"
+          ) {
+            const imageUrl =
+              options.format === "Screenshot"
+                ? response.data.screenshotUrl
+                : response.data.pageshotUrl;
+            if (!imageUrl) {
+              throw new UpstreamError(
+                `Jina Reader did not return a ${options.format.toLowerCase()} URL.`
+              );
+            }
+            const image = await client.fetchImage(imageUrl);
+            return McpContentSchema.parse({
+              content: [
+                {
+                  type: "text",
+                  text: `Title: ${response.data.title || "N/A"}\nURL: ${url}\n${
+                    options.format
+                  }: ${imageUrl}`,
+                },
+                { type: "image", ...image },
+                ...(assets ? [{ type: "text", text: assets }] : []),
+              ],
+              structuredContent: {
+                title: response.data.title || "N/A",
+                url,
+                chunks: [],
+                ...assetsOutput,
+                screenshot_url: imageUrl,
+              } satisfies ReadWebpageOutput,
+            });
+          }
+
+          const { title, content } = response.data;
+          trackPage(
+            context,
+            server,
+            extra.sessionId,
+            { url: response.data.url || url, title: title || url },
+            content
+          );
+          const validChunks = await chunkPage(context, content || "");
+          indexPage(context, extra.sessionId, {
+            url: response.data.url || url,
+            title: title || url,
+            source: "read-webpage",
+            chunks: validChunks,
+          });
+          let scored: ScoredChunk[] = [];
+          if (validChunks.length > 0) {
+            let queryText = (query || "").trim();
+            if (queryText === "") {
+              queryText = title || "";
+            }
+            scored = await selectTopChunks(
+              client,
+              queryText,
+              validChunks,
+              ranking,
+              once(async () => (await embedTexts(client, [queryText]))[0]),
+              top_k,
+              hybridOptions(context.config.hybridRanking, {
+                fusion,
+                semantic_weight,
+                diversity,
+              })
+            );
+          }
+          const topChunks = scored.map((s) => s.chunk).join("\n\n");
+
+          const outputText = `Title: ${
+            title || "N/A"
+          }\nURL: ${url}\nFull content: ${pageUri(
+            response.data.url || url
+          )}\n\nRelevant Content:\n${topChunks || "No content extracted."}`;
+
+          // Validate output before returning
+          return McpContentSchema.parse({
+            content: [
+              { type: "text", text: outputText },
+              ...(assets ? [{ type: "text", text: assets }] : []),
+            ],
+            structuredContent: {
+              title: title || "N/A",
+              url,
+              resource: pageUri(response.data.url || url),
+              chunks: scored.map(({ chunk, score }) => ({
+                text: chunk,
+                score,
+              })),
+              ...assetsOutput,
+            } satisfies ReadWebpageOutput,
+          });
+        } catch (error: any) {
+          logger.error("Error executing read-webpage tool", { error });
+          return toolError("Reading webpage", error);
+        }
+      }
+    )
+  );
+
+  // 4. Embed Tool (using api.jina.ai/v1/embeddings)
+  server.registerTool(
+    "embed",
+    {
+      description: "Generate Jina embeddings for a list of texts.",
+      inputSchema: EmbedInputSchema,
+    },
+    metered<typeof EmbedInputSchema>(
+      context,
+      "embed",
+      async ({
+        texts,
+        ...options
+      }): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing embed tool", { count: texts.length });
+        try {
+          const embeddings = await embedAllTexts(client, texts, options);
+          const outputText = `Embedded ${texts.length} texts with ${
+            options.model
+          } (task: ${options.task ?? "default"}, dimensions: ${
+            embeddings[0]?.length ?? 0
+          }).`;
+
+          return McpContentSchema.parse({
+            content: [
+              { type: "text", text: outputText },
+              { type: "text", text: JSON.stringify(embeddings) },
+            ],
+          });
+        } catch (error: any) {
+          logger.error("Error executing embed tool", { error });
+          return toolError("Embedding", error);
+        }
+      }
+    )
+  );
+
+  // 5. Similarity Tool (using api.jina.ai/v1/embeddings)
+  server.registerTool(
+    "similarity",
+    {
+      description:
+        "Compute pairwise cosine similarity between texts using Jina embeddings, e.g. for clustering or deduplication.",
+      inputSchema: SimilarityInputSchema,
+    },
+    metered<typeof SimilarityInputSchema>(
+      context,
+      "similarity",
+      async ({
+        texts,
+        threshold,
+        ...options
+      }): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing similarity tool", { count: texts.length });
+        try {
+          const embeddings = await embedAllTexts(client, texts, {
+            task: "text-matching",
+            ...options,
+          });
+          const matrix = embeddings.map((a) =>
+            embeddings.map((b) => cosineSimilarity(a, b))
+          );
+
+          const header = `|   | ${texts.map((_, i) => i + 1).join(" | ")} |`;
+          const divider = `|---|${texts.map(() => "---").join("|")}|`;
+          const rows = matrix.map(
+            (row, i) =>
+              `| ${i + 1} | ${row.map((v) => v.toFixed(3)).join(" | ")} |`
+          );
+          const legend = texts
+            .map((text, i) => `${i + 1}: ${text.substring(0, 80)}`)
+            .join("\n");
+          let outputText = `Texts:\n${legend}\n\nSimilarity matrix:\n${[
+            header,
+            divider,
+            ...rows,
+          ].join("\n")}`;
+
+          if (threshold !== undefined) {
+            const pairs: string[] = [];
+            for (let i = 0; i < matrix.length; i++) {
+              for (let j = i + 1; j < matrix.length; j++) {
+                if (matrix[i][j] >= threshold) {
+                  pairs.push(
+                    `- ${i + 1} & ${j + 1}: ${matrix[i][j].toFixed(3)}`
+                  );
+                }
+              }
+            }
+            outputText += `\n\nPairs with similarity >= ${threshold}:\n${
+              pairs.length > 0 ? pairs.join("\n") : "None"
+            }`;
+          }
+
+          return McpContentSchema.parse({
+            content: [{ type: "text", text: outputText }],
+          });
+        } catch (error: any) {
+          logger.error("Error executing similarity tool", { error });
+          return toolError("Similarity", error);
+        }
+      }
+    )
+  );
+
+  // 6. Notebook Query Tool (session vector store)
+  server.registerTool(
+    "notebook-query",
+    {
+      description:
+        "Semantically search all pages read or found through search in this session, returning chunks with their source URLs.",
+      inputSchema: NotebookQueryInputSchema,
+    },
+    metered<typeof NotebookQueryInputSchema>(
+      context,
+      "notebook-query",
+      async (
+        { query, top_k },
+        extra
+      ): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing notebook-query tool", { query });
+        try {
+          const notebook = await sessionNotebook(context, extra.sessionId);
+          await notebook.settled();
+          const candidates = notebook.chunks();
+          if (candidates.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: context.config.notebook.enabled
+                    ? "The notebook is empty. Use read-webpage or search first."
+                    : "The notebook is empty because this server does not index pages; it is turned on with JINA_NOTEBOOK=on.",
+                },
+              ],
+            };
+          }
+
+          const [queryEmbedding] = await embedTexts(
+            client,
+            [query],
+            NOTEBOOK_QUERY_OPTIONS
+          );
+          if (!queryEmbedding) {
+            throw new UpstreamError("Could not embed the query.");
+          }
+          const ranked = candidates
+            .map(({ page, chunk }) => ({
+              page,
+              text: chunk.text,
+              score: cosineSimilarity(queryEmbedding, chunk.embedding),
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, top_k);
+
+          const outputText = ranked
+            .map(
+              (r, index) =>
+                `[${index + 1}] ${r.page.title}\nURL: ${
+                  r.page.url
+                }\nScore: ${r.score.toFixed(3)}\n${r.text}`
+            )
+            .join("\n\n---\n\n");
+
+          return McpContentSchema.parse({
+            content: [{ type: "text", text: outputText }],
+          });
+        } catch (error: any) {
+          logger.error("Error executing notebook-query tool", { error });
+          return toolError("Notebook query", error);
+        }
+      }
+    )
+  );
+
+  // 7. Notebook List Tool
+  server.registerTool(
+    "notebook-list",
+    {
+      description: "List the pages stored in this session's research notebook.",
+      inputSchema: {},
+    },
+    instrumented(
+      context,
+      "notebook-list",
+      async (_args, extra): Promise<z.infer<typeof McpContentSchema>> => {
+        const notebook = await sessionNotebook(context, extra.sessionId);
+        await notebook.settled();
+        const pages = notebook.list();
+        const outputText =
+          pages.length === 0
+            ? "The notebook is empty."
+            : pages
+                .map(
+                  (page, index) =>
+                    `${index + 1}. ${page.title}\n   URL: ${page.url}\n   Source: ${
+                      page.source
+                    }, ${page.chunks.length} chunks, added ${page.addedAt}`
+                )
+                .join("\n");
+        return McpContentSchema.parse({
+          content: [{ type: "text", text: outputText }],
+        });
+      }
+    )
+  );
+
+  // 8. Notebook Clear Tool
+  server.registerTool(
+    "notebook-clear",
+    {
+      description: "Remove all pages from this session's research notebook.",
+      inputSchema: {},
+    },
+    instrumented(
+      context,
+      "notebook-clear",
+      async (_args, extra): Promise<z.infer<typeof McpContentSchema>> => {
+        const notebook = await sessionNotebook(context, extra.sessionId);
+        await notebook.settled();
+        const count = await notebook.clear();
+        return McpContentSchema.parse({
+          content: [
+            { type: "text", text: `Removed ${count} pages from the notebook.` },
+          ],
+        });
+      }
+    )
+  );
+
+  // 9. Usage Tool
+  server.registerTool(
+    "usage",
+    {
+      description:
+        "Report the Jina tokens spent by this session, per tool and endpoint, and the remaining budgets.",
+      inputSchema: {},
+    },
+    instrumented(
+      context,
+      "usage",
+      async (_args, extra): Promise<z.infer<typeof McpContentSchema>> => {
+        const session = usage.session(extra.sessionId ?? STDIO_SESSION_ID);
+        const { session: sessionBudget, global: globalBudget } = usage.budgets;
+        const breakdown = (counts: Record<string, number>) =>
+          Object.keys(counts).length === 0
+            ? "  none"
+            : Object.entries(counts)
+                .map(([name, tokens]) => `  ${name}: ${tokens}`)
+                .join("\n");
+        const outputText = `Session tokens: ${session.total} (budget: ${
+          sessionBudget ?? "unlimited"
+        })\nBy tool:\n${breakdown(session.byTool)}\nBy endpoint:\n${breakdown(
+          session.byEndpoint
+        )}\n\nServer-wide tokens: ${usage.global} (budget: ${
+          globalBudget ?? "unlimited"
+        })`;
+        return McpContentSchema.parse({
+          content: [{ type: "text", text: outputText }],
+        });
+      }
+    )
+  );
+
+  // 10. Cache Stats Tool (debugging)
+  server.registerTool(
+    "cache-stats",
+    {
+      description:
+        "Report response cache hit/miss statistics per Jina endpoint.",
+      inputSchema: {},
+    },
+    instrumented(
+      context,
+      "cache-stats",
+      async (): Promise<z.infer<typeof McpContentSchema>> => {
+        const stats = {
+          enabled: context.config.cache.enabled,
+          ...context.cache.getStats(),
+        };
+        return McpContentSchema.parse({
+          content: [{ type: "text", text: JSON.stringify(stats, null, 2) }],
+        });
+      }
+    )
+  );
+
+  // 11. Deep Research Tool (search, read and rank across pages)
+  server.registerTool(
+    "deep-research",
+    {
+      description:
+        "Research a question in one call: search the web, read the top pages, rank passages across all of them and follow up on gaps. Returns evidence with numbered citations.",
+      inputSchema: DeepResearchInputSchema,
+    },
+    metered<typeof DeepResearchInputSchema>(
+      context,
+      "deep-research",
+      async (
+        {
+          question,
+          depth,
+          breadth,
+          top_k,
+          ranking = defaultRanking,
+          ...tuning
+        },
+        extra
+      ): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing deep-research tool", { question });
+        try {
+          const result = await deepResearch(
+            context,
+            server,
+            question,
+            {
+              depth,
+              breadth,
+              topK: top_k,
+              ranking,
+              hybrid: hybridOptions(context.config.hybridRanking, tuning),
+            },
+            extra
+          );
+          return McpContentSchema.parse({
+            content: [{ type: "text", text: formatResearch(question, result) }],
+          });
+        } catch (error: any) {
+          logger.error("Error executing deep-research tool", { error });
+          return toolError("Deep research", error);
+        }
+      }
+    )
+  );
+
+  // 12. Read Webpages Tool (batch read ranked against one query)
+  server.registerTool(
+    "read-webpages",
+    {
+      description:
+        "Read several webpages at once and extract the parts most relevant to a query, per page or across all pages. Pages that cannot be read are listed without failing the others.",
+      inputSchema: ReadWebpagesInputSchema,
+    },
+    metered<typeof ReadWebpagesInputSchema>(
+      context,
+      "read-webpages",
+      async (
+        {
+          urls,
+          query,
+          scope,
+          top_k,
+          no_cache,
+          ranking = defaultRanking,
+          ...tuning
+        },
+        extra
+      ): Promise<z.infer<typeof McpContentSchema>> => {
+        logger.info("Executing read-webpages tool", {
+          count: urls.length,
+          query,
+        });
+        try {
+          const result = await readPages(
+            context,
+            server,
+            urls,
+            query,
+            {
+              scope,
+              topK: top_k ?? (scope === "global" ? 10 : TOP_CHUNKS),
+              ranking,
+              hybrid: hybridOptions(context.config.hybridRanking, tuning),
+              read: { no_cache },
+            },
+            extra
+          );
+          return McpContentSchema.parse({
+            // Partial failures are reported in the text; only fail when nothing was read
+            isError: result.pages.length === 0,
+            content: [
+              {
+                type: "text",
+                text: formatBatchRead(query, urls.length, result),
+              },
+            ],
+          });
+        } catch (error: any) {
+          logger.error("Error executing read-webpages tool", { error });
+          return toolError("Reading webpages", error);
+        }
+      }
+    )
+  );
+
+  registerPrompts(server);
+
+  // --- Define Resources ---
+
+  // Full Reader output for a page, listing the pages fetched this session
+  server.resource(
+    "page",
+    new ResourceTemplate("jina://page/{url}", {
+      list: async (extra) => ({
+        resources: resources
+          .list(extra.sessionId ?? STDIO_SESSION_ID)
+          .map((page) => ({
+            uri: pageUri(page.url),
+            name: page.title,
+            description: `Fetched ${page.fetchedAt}`,
+            mimeType: "text/markdown",
+          })),
+      }),
+    }),
+    {
+      description:
+        "Full Markdown content of a webpage read through Jina Reader. The URL is percent-encoded.",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables, extra): Promise<ReadResourceResult> => {
+      const url = templateVariable(variables.url);
+      logger.info("Reading page resource", { url });
+      const response = await withSessionUsage(
+        context,
+        extra,
+        "resource:page",
+        () => client.read(url)
+      );
+      const { title, content } = response.data;
+      trackPage(
+        context,
+        server,
+        extra.sessionId,
+        { url: response.data.url || url, title: title || url },
+        content
+      );
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# ${title || url}\n\nURL: ${url}\n\n${content}`,
+          },
+        ],
+      };
+    }
+  );
+
+  // Raw search results for a query
+  server.resource(
+    "search",
+    new ResourceTemplate("jina://search/{query}", { list: undefined }),
+    {
+      description:
+        "Raw Jina search results for a query as JSON. The query is percent-encoded.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra): Promise<ReadResourceResult> => {
+      const query = templateVariable(variables.query);
+      logger.info("Reading search resource", { query });
+      const response = await withSessionUsage(
+        context,
+        extra,
+        "resource:search",
+        () => client.search(query)
+      );
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- Logging ---
+
+  // Once the client picks a level with logging/setLevel, what its own
+  // requests log at that level or above is forwarded to it
+  let clientLogLevel: LoggingLevel | undefined;
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
+  const removeLogSink = addLogSink(
+    ({ level, msg, time, sessionId, ...fields }) => {
+      if (
+        !clientLogLevel ||
+        !atLeast(level, clientLogLevel) ||
+        !server.isConnected() ||
+        sessionId !== (server.server.transport?.sessionId ?? STDIO_SESSION_ID)
+      ) {
+        return;
+      }
+      // Sent along with the response of the request that logged it, over
+      // Streamable HTTP. Not logged on failure, which would forward another
+      // record.
+      server.server
+        .notification(
+          {
+            method: "notifications/message",
+            params: {
+              level,
+              logger: "jina-mcp",
+              data: { message: msg, ...fields },
+            },
+          },
+          fields.requestId !== undefined
+            ? { relatedRequestId: fields.requestId }
+            : undefined
+        )
+        .catch(() => {});
+    }
+  );
+  server.server.onclose = () => {
+    removeLogSink();
+    closed.abort();
+  };
+
+  server.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request, extra) => {
+      resources.subscribe(
+        request.params.uri,
+        extra.sessionId ?? STDIO_SESSION_ID,
+        (uri) => server.server.sendResourceUpdated({ uri })
+      );
+      return {};
+    }
+  );
+
+  server.server.setRequestHandler(
+    UnsubscribeRequestSchema,
+    async (request, extra) => {
+      resources.unsubscribe(
+        request.params.uri,
+        extra.sessionId ?? STDIO_SESSION_ID
+      );
+      return {};
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,203 @@
+/**
+ * Bookkeeping for the sessions of an HTTP transport: their last activity and
+ * in-flight requests, so idle sessions can expire, new sessions can be turned
+ * away at capacity and shutdown can wait for running tool calls.
+ */
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  RequestId,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./log.js";
+import { sleep } from "./resilience.js";
+
+export type SessionOptions = {
+  /** Sessions open at once; 0 for no limit. */
+  maxSessions: number;
+  /** Close sessions without requests for this long; 0 to keep them open. */
+  idleTimeoutMs: number;
+};
+
+type Session<T extends Transport> = {
+  transport: T;
+  lastActivity: number;
+  // Requests from the client that have not been answered yet
+  pending: Set<RequestId>;
+};
+
+// How often shutdown checks whether in-flight requests have finished
+const DRAIN_POLL_MS = 50;
+
+// Upper bound on the idle sweep interval, so short timeouts stay accurate
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+export class SessionRegistry<T extends Transport = Transport> {
+  private sessions = new Map<string, Session<T>>();
+  // Slots held by sessions still being set up
+  private reserved = 0;
+  private draining = false;
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(private options: SessionOptions) {
+    if (options.idleTimeoutMs > 0) {
+      this.sweeper = setInterval(
+        () => this.sweep(),
+        Math.min(MAX_SWEEP_INTERVAL_MS, Math.max(1, options.idleTimeoutMs / 4))
+      );
+      // Expiring sessions should not keep the process alive
+      this.sweeper.unref();
+    }
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get maxSessions(): number {
+    return this.options.maxSessions;
+  }
+
+  /** Whether shutdown has begun; no new sessions or requests are accepted. */
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  /** Whether a new session may start now. */
+  get hasCapacity(): boolean {
+    return (
+      this.options.maxSessions <= 0 ||
+      this.size + this.reserved < this.options.maxSessions
+    );
+  }
+
+  /**
+   * Hold a slot for a session being set up, so sessions that start at the
+   * same time cannot exceed the limit before they are added. Returns a
+   * function releasing the slot, which is safe to call more than once.
+   */
+  reserve(): () => void {
+    this.reserved++;
+    let held = true;
+    return () => {
+      if (held) {
+        held = false;
+        this.reserved--;
+      }
+    };
+  }
+
+  /** Requests still being handled across all sessions. */
+  get pendingRequests(): number {
+    let count = 0;
+    for (const session of this.sessions.values()) count += session.pending.size;
+    return count;
+  }
+
+  get(sessionId: string): T | undefined {
+    return this.sessions.get(sessionId)?.transport;
+  }
+
+  /**
+   * Register the transport of a new session. Call once the MCP server is
+   * connected to it: its messages are observed to track activity and
+   * requests, and once draining, new requests are refused.
+   */
+  add(sessionId: string, transport: T): void {
+    const session: Session<T> = {
+      transport,
+      lastActivity: Date.now(),
+      pending: new Set(),
+    };
+    this.sessions.set(sessionId, session);
+
+    const receive = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      session.lastActivity = Date.now();
+      if (isJSONRPCRequest(message)) {
+        if (this.draining) {
+          void transport.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: {
+              code: ErrorCode.ConnectionClosed,
+              message: "Server is shutting down",
+            },
+          });
+          return;
+        }
+        session.pending.add(message.id);
+      }
+      receive?.call(transport, message, extra);
+    };
+
+    const send = transport.send.bind(transport);
+    transport.send = (message, options) => {
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        session.pending.delete(message.id);
+        session.lastActivity = Date.now();
+      }
+      return send(message, options);
+    };
+  }
+
+  /** Forget a session whose transport has closed. */
+  remove(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Close sessions idle for longer than the timeout. Sessions with a request
+   * in flight, such as a long deep-research call, are never idle.
+   */
+  sweep(now = Date.now()): string[] {
+    const expired: string[] = [];
+    if (this.options.idleTimeoutMs <= 0) return expired;
+    for (const [sessionId, session] of this.sessions) {
+      if (
+        session.pending.size === 0 &&
+        now - session.lastActivity >= this.options.idleTimeoutMs
+      ) {
+        expired.push(sessionId);
+        logger.info("Closing idle session", { sessionId });
+        void this.close(sessionId, session);
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Stop accepting sessions and requests, wait up to `timeoutMs` for
+   * in-flight requests to finish, then close every transport.
+   */
+  async drain(timeoutMs: number): Promise<void> {
+    this.draining = true;
+    clearInterval(this.sweeper);
+    const deadline = Date.now() + timeoutMs;
+    while (this.pendingRequests > 0 && Date.now() < deadline) {
+      await sleep(DRAIN_POLL_MS);
+    }
+    if (this.pendingRequests > 0) {
+      logger.warn("Shutdown timed out with requests still in flight", {
+        pending: this.pendingRequests,
+      });
+    }
+    await Promise.all(
+      [...this.sessions].map(([sessionId, session]) =>
+        this.close(sessionId, session)
+      )
+    );
+  }
+
+  private async close(sessionId: string, session: Session<T>): Promise<void> {
+    // The transport's close handler releases the session's state
+    this.sessions.delete(sessionId);
+    try {
+      await session.transport.close();
+    } catch (error: any) {
+      logger.warn("Failed to close session", { sessionId, error });
+    }
+  }
+}
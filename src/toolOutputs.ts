@@ -0,0 +1,84 @@
+/**
+ * Output schemas of the tools returning `structuredContent`, for clients that
+ * consume results as data instead of parsing the text rendering.
+ */
+import { z } from "zod";
+
+const ScoredChunkOutput = z.object({
+  text: z.string(),
+  score: z.number().describe("Relevance to the query; higher is better."),
+});
+
+const GroundingReferenceOutput = z.object({
+  url: z.string(),
+  key_quote: z.string(),
+  supportive: z.boolean(),
+});
+
+const VerdictOutput = z.object({
+  result: z.boolean().describe("Whether the statement is likely true."),
+  factuality: z.number().describe("Factuality score from 0 to 1."),
+  reason: z.string(),
+  references: z.array(GroundingReferenceOutput),
+});
+
+// Schema for the Search tool's structured output
+export const SearchOutputSchema = {
+  query: z.string(),
+  page: z.number().int(),
+  results: z.array(
+    z.object({
+      position: z
+        .number()
+        .int()
+        .describe("Rank of the result, continued across pages."),
+      title: z.string(),
+      url: z.string(),
+      description: z.string().optional(),
+      chunks: z.array(ScoredChunkOutput),
+    })
+  ),
+};
+
+// Schema for the Read Webpage tool's structured output
+export const ReadWebpageOutputSchema = {
+  title: z.string(),
+  url: z.string(),
+  resource: z
+    .string()
+    .optional()
+    .describe("URI of the page's full content as an MCP resource."),
+  chunks: z.array(ScoredChunkOutput),
+  links: z.array(z.object({ text: z.string(), url: z.string() })).optional(),
+  images: z.array(z.object({ alt: z.string(), url: z.string() })).optional(),
+  screenshot_url: z
+    .string()
+    .optional()
+    .describe("URL of the screenshot or pageshot, for those formats."),
+};
+
+// Schema for the Fact Check tool's structured output; batch mode fills `claims`
+export const FactCheckOutputSchema = {
+  statement: z.string(),
+  ...VerdictOutput.partial().shape,
+  claims: z
+    .array(
+      VerdictOutput.partial().extend({
+        claim: z.string(),
+        error: z
+          .string()
+          .optional()
+          .describe("Why the claim could not be checked."),
+      })
+    )
+    .optional(),
+};
+
+export type SearchOutput = z.infer<z.ZodObject<typeof SearchOutputSchema>>;
+export type ReadWebpageOutput = z.infer<
+  z.ZodObject<typeof ReadWebpageOutputSchema>
+>;
+export type FactCheckOutput = z.infer<
+  z.ZodObject<typeof FactCheckOutputSchema>
+>;
+export type Verdict = z.infer<typeof VerdictOutput>;
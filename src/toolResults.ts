@@ -0,0 +1,160 @@
+/**
+ * Helpers shaping tool results: error results agents can act on, the metrics
+ * and log context of every tool call, and the usage accounting wrapped
+ * around every tool that calls Jina.
+ */
+import { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape } from "zod";
+import { ImageContentSchema, TextContentSchema } from "../schemas.js";
+import { STDIO_SESSION_ID, ServerContext, requestSignal } from "./context.js";
+import { JinaError } from "./errors.js";
+import { logger, withLogContext } from "./log.js";
+import {
+  BudgetExceededError,
+  UsageContext,
+  UsageTracker,
+  usageContext,
+} from "./usage.js";
+
+// Schema for the standard MCP tool output format
+export const McpContentSchema = z.object({
+  isError: z.boolean().optional(),
+  content: z
+    .array(
+      z.union([
+        TextContentSchema.extend({ type: z.literal("text") }),
+        ImageContentSchema.extend({ type: z.literal("image") }),
+      ])
+    )
+    .min(1, "Content array cannot be empty"),
+  // Validated against the tool's output schema by the SDK
+  structuredContent: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Turn an error into an `isError` tool result whose message tells the agent
+ * what kind of failure occurred and whether retrying makes sense.
+ */
+export function toolError(
+  action: string,
+  error: unknown
+): z.infer<typeof McpContentSchema> {
+  const text =
+    error instanceof JinaError
+      ? `${action} failed [${error.code}]: ${error.message}\n${error.retryHint}`
+      : `${action} failed [internal_error]: ${
+          error instanceof Error ? error.message : String(error)
+        }\nThis is an unexpected server error; retrying may not help.`;
+  return { isError: true, content: [{ type: "text", text }] };
+}
+
+/**
+ * Report the tokens spent by a tool call in a text block of its own after the
+ * output, so output blocks holding data such as JSON stay parseable.
+ */
+export function withUsageFooter(
+  usage: UsageTracker,
+  result: CallToolResult,
+  context: UsageContext
+): CallToolResult {
+  const session = usage.session(context.sessionId);
+  const budget = usage.budgets.session;
+  const footer = `Jina tokens used: ${context.tokens} (session total: ${
+    session.total
+  }${budget !== undefined ? ` of ${budget}` : ""})`;
+
+  return {
+    ...result,
+    content: [...result.content, { type: "text", text: footer }],
+  };
+}
+
+type ToolExtra = {
+  sessionId?: string;
+  requestId?: string | number;
+  signal: AbortSignal;
+};
+
+/**
+ * Wrap a tool handler so that what it logs names the session, request and
+ * tool, its outcome and duration are recorded in the metrics, and its signal
+ * also aborts when the session closes.
+ */
+export function instrumented<Args extends ZodRawShape>(
+  context: Pick<ServerContext, "metrics" | "sessionSignal">,
+  tool: string,
+  handler: ToolCallback<Args>
+): ToolCallback<Args> {
+  const { metrics } = context;
+  return (async (args: unknown, extra: ToolExtra) =>
+    withLogContext(
+      {
+        sessionId: extra.sessionId ?? STDIO_SESSION_ID,
+        requestId: extra.requestId,
+        tool,
+      },
+      async () => {
+        const start = performance.now();
+        let outcome = "error";
+        try {
+          const result: CallToolResult = await (
+            handler as (...params: unknown[]) => Promise<CallToolResult>
+          )(args, { ...extra, signal: requestSignal(context, extra.signal) });
+          if (!result.isError) outcome = "success";
+          return result;
+        } finally {
+          const seconds = (performance.now() - start) / 1000;
+          metrics.toolCalls.inc({ tool, outcome });
+          metrics.toolDuration.observe({ tool }, seconds);
+          logger.debug("Tool call finished", {
+            outcome,
+            durationMs: Math.round(seconds * 1000),
+          });
+        }
+      }
+    )) as ToolCallback<Args>;
+}
+
+/**
+ * Wrap a tool handler so that it is instrumented, its Jina calls are
+ * attributed to the session and tool and stop once it is cancelled, the call
+ * is refused once a budget is exhausted, and the tokens it spent are reported
+ * in a footer.
+ */
+export function metered<Args extends ZodRawShape>(
+  context: Pick<
+    ServerContext,
+    "client" | "usage" | "metrics" | "sessionSignal"
+  >,
+  tool: string,
+  handler: ToolCallback<Args>
+): ToolCallback<Args> {
+  const { usage } = context;
+  return instrumented(context, tool, (async (
+    args: unknown,
+    extra: ToolExtra
+  ) => {
+    const sessionId = extra.sessionId ?? STDIO_SESSION_ID;
+    const refusal = usage.exceededBudget(
+      sessionId,
+      context.client.usesClientKey
+    );
+    if (refusal) {
+      return toolError(tool, new BudgetExceededError(refusal));
+    }
+    const call: UsageContext = {
+      sessionId,
+      tool,
+      tokens: 0,
+      signal: extra.signal,
+    };
+    const result: CallToolResult = await usageContext.run(call, () =>
+      (handler as (...params: unknown[]) => Promise<CallToolResult>)(
+        args,
+        extra
+      )
+    );
+    return withUsageFooter(usage, result, call);
+  }) as ToolCallback<Args>);
+}
@@ -0,0 +1,422 @@
+/**
+ * Transports serving the MCP server: stdio for a single local client, and the
+ * legacy HTTP+SSE or Streamable HTTP transports for remote clients.
+ */
+import express, { Request, RequestHandler, Response } from "express";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import { Server } from "node:http";
+import { HttpAuth, createHttpAuth } from "./auth.js";
+import { ServerContext, releaseSession, withClientKey } from "./context.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import { JinaProbe, mountHealthRoutes } from "./health.js";
+import { logger } from "./log.js";
+import { mountMetricsRoute } from "./metrics.js";
+import { createServer } from "./server.js";
+import { SessionRegistry } from "./sessions.js";
+
+/** A started server, which can be shut down gracefully. */
+export type RunningServer = { close(): Promise<void> };
+
+export async function startStdioServer(
+  context: ServerContext
+): Promise<RunningServer> {
+  const server = createServer(context);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  logger.info("MCP Server with Jina Tools running on stdio");
+  return { close: () => server.close() };
+}
+
+// To support multiple simultaneous connections each app keeps a registry
+// from sessionId to transport
+type TransportMap = SessionRegistry<
+  SSEServerTransport | StreamableHTTPServerTransport
+>;
+
+// Seconds a client turned away at the session limit is asked to wait
+const SESSION_RETRY_AFTER_S = 30;
+
+// Header through which an HTTP client supplies its own Jina API key
+export const CLIENT_KEY_HEADER = "x-jina-api-key";
+
+type SessionSetup =
+  { context: ServerContext } | { status: number; error: string };
+
+/**
+ * Context for a session opened by `req`: its Jina calls are billed to the key
+ * the client sent, or to the server's key. Fails when the request does not
+ * match the server's JINA_CLIENT_KEYS policy.
+ */
+function sessionSetup(context: ServerContext, req: Request): SessionSetup {
+  const header = req.headers[CLIENT_KEY_HEADER];
+  const apiKey = (Array.isArray(header) ? header[0] : header)?.trim();
+  const mode = context.config.clientKeys;
+  if (!apiKey) {
+    return mode === "require"
+      ? {
+          status: 401,
+          error: `Missing ${CLIENT_KEY_HEADER} header: this server requires each client to supply its own Jina API key`,
+        }
+      : { context };
+  }
+  if (mode === "off") {
+    return {
+      status: 400,
+      error: "This server does not accept client-supplied Jina API keys",
+    };
+  }
+  return { context: withClientKey(context, apiKey) };
+}
+
+/**
+ * Why a new session cannot start right now, if it cannot: the server is
+ * shutting down or already serving as many sessions as it may.
+ */
+function sessionRefusal(transports: TransportMap): string | undefined {
+  if (transports.isDraining) return "Server is shutting down";
+  if (!transports.hasCapacity) {
+    return `Too many active sessions (limit ${transports.maxSessions}); try again later`;
+  }
+  return undefined;
+}
+
+/** Forget a disconnected session and release the state scoped to it. */
+function closeSession(
+  context: ServerContext,
+  transports: TransportMap,
+  sessionId: string
+): void {
+  logger.info("Client disconnected", { sessionId });
+  transports.remove(sessionId);
+  releaseSession(context, sessionId);
+}
+
+/** Mount the legacy HTTP+SSE endpoints (`/sse` and `/messages`). */
+function mountSseRoutes(
+  app: express.Express,
+  context: ServerContext,
+  transports: TransportMap,
+  guard: RequestHandler[]
+): void {
+  // SSE endpoint for clients to connect
+  app.get("/sse", ...guard, async (req: Request, res: Response) => {
+    logger.debug("Client connecting via SSE");
+    const refusal = sessionRefusal(transports);
+    if (refusal) {
+      res.status(503).set("Retry-After", `${SESSION_RETRY_AFTER_S}`);
+      res.send(refusal);
+      return;
+    }
+    const setup = sessionSetup(context, req);
+    if ("error" in setup) {
+      res.status(setup.status).send(setup.error);
+      return;
+    }
+    const release = transports.reserve();
+    // Use '/messages' as the path where clients will POST back
+    const transport = new SSEServerTransport("/messages", res);
+    const sessionId = transport.sessionId;
+    logger.debug("Transport created", { sessionId });
+
+    res.on("close", () => {
+      closeSession(context, transports, sessionId);
+    });
+
+    try {
+      await createServer(setup.context).connect(transport);
+      // Registered once connected, so its messages can be observed; the
+      // client only learns its endpoint as the connection starts
+      transports.add(sessionId, transport);
+      release();
+      logger.info("Client connected via SSE", { sessionId });
+    } catch (error) {
+      release();
+      logger.error("Error connecting MCP Server to transport", {
+        sessionId,
+        error,
+      });
+      // Ensure connection is closed if server.connect fails
+      if (!res.closed) {
+        res.end();
+      }
+      transports.remove(sessionId);
+    }
+  });
+
+  // Endpoint for clients to send messages back to the server
+  app.post("/messages", ...guard, async (req: Request, res: Response) => {
+    const sessionId = req.query.sessionId as string;
+    if (!sessionId) {
+      logger.warn("Received POST /messages without sessionId query parameter");
+      res.status(400).send("Missing sessionId query parameter");
+      return;
+    }
+
+    const transport = transports.get(sessionId);
+    if (transport instanceof SSEServerTransport) {
+      logger.debug("Received message", { sessionId });
+      try {
+        await transport.handlePostMessage(req, res);
+      } catch (error) {
+        logger.error("Error handling POST message", { sessionId, error });
+        // handlePostMessage usually sends the response, but if it throws before sending:
+        if (!res.headersSent) {
+          res.status(500).send("Error processing message");
+        }
+      }
+    } else {
+      logger.warn("No active transport found", { sessionId });
+      res.status(404).send("No active SSE connection found for this sessionId");
+    }
+  });
+}
+
+/** Send a JSON-RPC error without a request id, as the transport itself does. */
+function sendJsonRpcError(
+  res: Response,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
+
+/** Pass a POST to its transport, answering with an error if that fails. */
+async function handlePost(
+  transport: StreamableHTTPServerTransport,
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    logger.error("Error handling Streamable HTTP request", { error });
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    }
+  }
+}
+
+/** Mount the Streamable HTTP endpoint (`/mcp`) with resumable sessions. */
+function mountStreamableHttpRoutes(
+  app: express.Express,
+  context: ServerContext,
+  transports: TransportMap,
+  guard: RequestHandler[]
+): void {
+  app.post(
+    "/mcp",
+    ...guard,
+    express.json(),
+    async (req: Request, res: Response) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      const transport = sessionId ? transports.get(sessionId) : undefined;
+
+      if (transport && !(transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(
+          res,
+          400,
+          -32000,
+          "Session uses a different transport"
+        );
+        return;
+      }
+
+      if (!transport) {
+        if (sessionId || !isInitializeRequest(req.body)) {
+          sendJsonRpcError(
+            res,
+            sessionId ? 404 : 400,
+            -32000,
+            sessionId
+              ? "Session not found"
+              : "Bad Request: No valid session ID provided"
+          );
+          return;
+        }
+
+        const refusal = sessionRefusal(transports);
+        if (refusal) {
+          res.set("Retry-After", `${SESSION_RETRY_AFTER_S}`);
+          sendJsonRpcError(res, 503, -32000, refusal);
+          return;
+        }
+
+        const setup = sessionSetup(context, req);
+        if ("error" in setup) {
+          sendJsonRpcError(res, setup.status, -32000, setup.error);
+          return;
+        }
+
+        // Held from here, as the session only joins the registry once
+        // the transport has answered the initialize request
+        const release = transports.reserve();
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          eventStore: new InMemoryEventStore(),
+          onsessioninitialized: (id) => {
+            logger.info("Streamable HTTP session initialized", {
+              sessionId: id,
+            });
+            transports.add(id, newTransport);
+            release();
+          },
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            closeSession(context, transports, newTransport.sessionId);
+          }
+        };
+        const server = createServer(setup.context);
+        try {
+          await server.connect(newTransport);
+          await handlePost(newTransport, req, res);
+        } finally {
+          release();
+          // A failed initialize leaves no session to close the server later
+          if (!newTransport.sessionId) {
+            await server.close().catch((error) => {
+              logger.warn("Failed to close uninitialized session", { error });
+            });
+          }
+        }
+        return;
+      }
+
+      await handlePost(transport, req, res);
+    }
+  );
+
+  // GET opens (or resumes, via Last-Event-ID) the server-to-client stream;
+  // DELETE terminates the session.
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const transport = sessionId ? transports.get(sessionId) : undefined;
+    if (!(transport instanceof StreamableHTTPServerTransport)) {
+      res.status(sessionId ? 404 : 400).send("Invalid or missing session ID");
+      return;
+    }
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      logger.error(`Error handling ${req.method} /mcp`, { sessionId, error });
+      if (!res.headersSent) {
+        res.status(500).send("Error processing request");
+      }
+    }
+  };
+  app.get("/mcp", ...guard, handleSessionRequest);
+  app.delete("/mcp", ...guard, handleSessionRequest);
+}
+
+export type HttpAppOptions = {
+  /** Require a bearer token on the MCP endpoints. */
+  auth?: HttpAuth;
+  /** Sessions of the app, so the caller can drain them on shutdown. */
+  sessions?: TransportMap;
+};
+
+/**
+ * Create the express app serving one HTTP transport. Each app keeps its own
+ * sessions, so several apps can share a context.
+ */
+export function createHttpApp(
+  mode: "sse" | "http",
+  context: ServerContext,
+  {
+    auth,
+    sessions: transports = new SessionRegistry(context.config.sessions),
+  }: HttpAppOptions = {}
+): express.Express {
+  const app = express();
+  const guard = auth ? [auth.middleware] : [];
+
+  if (auth?.metadata) {
+    app.use(auth.metadata);
+  }
+
+  if (mode === "sse") {
+    mountSseRoutes(app, context, transports, guard);
+  } else {
+    mountStreamableHttpRoutes(app, context, transports, guard);
+  }
+
+  if (context.config.metrics) {
+    mountMetricsRoute(app, context.metrics, transports, guard);
+  }
+  mountHealthRoutes(
+    app,
+    transports,
+    context.config.readinessProbe
+      ? new JinaProbe(context.client.urls)
+      : undefined
+  );
+
+  const endpoint = endpointPath(mode);
+
+  // Basic root endpoint
+  app.get("/", (req: Request, res: Response) => {
+    res.send(`MCP Server with Jina Tools is running. Connect to ${endpoint}`);
+  });
+
+  return app;
+}
+
+function endpointPath(mode: "sse" | "http"): string {
+  return mode === "sse" ? "/sse" : "/mcp";
+}
+
+export async function startHttpServer(
+  mode: "sse" | "http",
+  context: ServerContext
+): Promise<RunningServer> {
+  const { auth: authConfig, port, sessions: limits } = context.config;
+  const baseUrl = authConfig.serverUrl ?? `http://localhost:${port}`;
+  const auth = await createHttpAuth(
+    authConfig,
+    new URL(endpointPath(mode), baseUrl)
+  );
+  const sessions: TransportMap = new SessionRegistry(limits);
+  const app = createHttpApp(mode, context, { auth, sessions });
+
+  const server = await new Promise<Server>((resolve, reject) => {
+    const listening = app.listen(port);
+    listening.once("error", reject);
+    listening.once("listening", () => resolve(listening));
+  });
+  logger.info(
+    `MCP ${mode === "sse" ? "SSE" : "Streamable HTTP"} Server with Jina Tools listening on http://localhost:${port}`,
+    mode === "sse"
+      ? {
+          endpoint: `http://localhost:${port}/sse`,
+          messages: `http://localhost:${port}/messages?sessionId=<sessionId>`,
+        }
+      : { endpoint: `http://localhost:${port}/mcp` }
+  );
+  if (auth) {
+    logger.info("Bearer authentication is required on the MCP endpoints");
+  }
+
+  return {
+    // Keep listening while draining, so new clients get a 503 rather than a
+    // refused connection, then drop the idle keep-alive connections
+    close: async () => {
+      logger.info("Shutting down, waiting for in-flight requests", {
+        pending: sessions.pendingRequests,
+      });
+      await sessions.drain(limits.shutdownTimeoutMs);
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    },
+  };
+}
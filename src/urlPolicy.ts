@@ -0,0 +1,168 @@
+/**
+ * Which URLs Jina may fetch on a client's behalf. Agents can be steered by
+ * the pages they read into fetching internal hosts, so only public http(s)
+ * URLs are read, optionally limited further by domain allow and deny lists.
+ */
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { InvalidInputError, PolicyViolationError } from "./errors.js";
+import { logger } from "./log.js";
+
+export type UrlPolicyOptions = {
+  /** Domains that may be read, with their subdomains; empty allows any. */
+  allow: string[];
+  /** Domains that may not be read, with their subdomains; wins over `allow`. */
+  deny: string[];
+  /** Refuse loopback, private, link-local and other non-public addresses. */
+  blockPrivate: boolean;
+  /** Also resolve hostnames and refuse those pointing at such addresses. */
+  resolveHosts: boolean;
+};
+
+// Addresses that do not belong to the public internet
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+/** Whether an IP address is loopback, private, link-local or otherwise non-public. */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  // IPv4-mapped IPv6 addresses are checked against the IPv4 ranges too
+  return NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Canonical form of a URL: trimmed, without its fragment, with the scheme
+ * and host lowercased and numeric hosts in dotted form.
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new InvalidInputError("Invalid URL");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new PolicyViolationError(
+      `Unsupported URL scheme "${parsed.protocol}"; only http and https URLs can be read`
+    );
+  }
+  parsed.hash = "";
+  return parsed.href;
+}
+
+/** Lowercase a list entry such as "*.Example.com." to "example.com". */
+function domain(entry: string): string {
+  return entry
+    .trim()
+    .toLowerCase()
+    .replace(/^\*?\./, "")
+    .replace(/\.$/, "");
+}
+
+/** Whether a host is one of the domains or a subdomain of one. */
+function matches(host: string, domains: string[]): boolean {
+  return domains.some((entry) => host === entry || host.endsWith(`.${entry}`));
+}
+
+export class UrlPolicy {
+  private allow: string[];
+  private deny: string[];
+
+  constructor(private options: UrlPolicyOptions) {
+    this.allow = options.allow.map(domain);
+    this.deny = options.deny.map(domain);
+  }
+
+  /**
+   * Why a host may not be read, or undefined when it may. Hostnames are
+   * only judged by name here; `check` also resolves them when configured.
+   */
+  hostViolation(hostname: string): string | undefined {
+    // IPv6 hosts are bracketed in URLs, and a trailing dot names the same host
+    const host = domain(hostname.replace(/^\[(.*)\]$/, "$1"));
+    if (matches(host, this.deny)) return `${host} is on the deny list`;
+    if (this.allow.length > 0 && !matches(host, this.allow)) {
+      return `${host} is not on the allow list`;
+    }
+    if (this.options.blockPrivate) {
+      if (host === "localhost" || host.endsWith(".localhost")) {
+        return `${host} is a loopback host`;
+      }
+      if (isNonPublicAddress(host)) return `${host} is not a public address`;
+    }
+    return undefined;
+  }
+
+  /** Whether a URL may be read, without resolving its hostname. */
+  allows(url: string): boolean {
+    try {
+      return (
+        this.hostViolation(new URL(normalizeUrl(url)).hostname) === undefined
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Normalize a URL and make sure it may be read, resolving its hostname
+   * when configured. Throws a `PolicyViolationError` when it may not.
+   */
+  async check(url: string): Promise<string> {
+    const normalized = normalizeUrl(url);
+    const { hostname } = new URL(normalized);
+    const violation = this.hostViolation(hostname);
+    if (violation) {
+      throw new PolicyViolationError(
+        `Refusing to read ${normalized}: ${violation}`
+      );
+    }
+    if (
+      this.options.blockPrivate &&
+      this.options.resolveHosts &&
+      isIP(hostname.replace(/^\[(.*)\]$/, "$1")) === 0
+    ) {
+      let addresses: { address: string }[];
+      try {
+        addresses = await lookup(hostname, { all: true });
+      } catch (error: any) {
+        // Unresolvable hosts cannot reach anything internal; Jina reports them
+        logger.debug("Could not resolve host", { hostname, error });
+        return normalized;
+      }
+      const internal = addresses.find(({ address }) =>
+        isNonPublicAddress(address)
+      );
+      if (internal) {
+        throw new PolicyViolationError(
+          `Refusing to read ${normalized}: ${hostname} resolves to ${internal.address}, which is not a public address`
+        );
+      }
+    }
+    return normalized;
+  }
+}
@@ -0,0 +1,122 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { JinaError, throwIfCancelled } from "./errors.js";
+
+/** The tool call on whose behalf Jina requests are being made. */
+export type UsageContext = {
+  sessionId: string;
+  tool: string;
+  /** Tokens spent so far by this tool call. */
+  tokens: number;
+  /** Aborted when the client cancels the call or its session closes. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Tool handlers run inside this storage so that Jina calls made anywhere
+ * below them are attributed to the right session and tool, and stop once
+ * the call is cancelled.
+ */
+export const usageContext = new AsyncLocalStorage<UsageContext>();
+
+/** Throw if the tool call being served has been cancelled. */
+export function throwIfCallCancelled(): void {
+  throwIfCancelled(usageContext.getStore()?.signal);
+}
+
+export type UsageBudgets = {
+  /** Maximum tokens per session; unlimited when unset. */
+  session?: number;
+  /** Maximum tokens across all sessions since startup; unlimited when unset. */
+  global?: number;
+};
+
+export type SessionUsage = {
+  total: number;
+  byTool: Record<string, number>;
+  byEndpoint: Record<string, number>;
+};
+
+/** A session or server-wide token budget has been used up. */
+export class BudgetExceededError extends JinaError {
+  readonly code = "budget_exceeded";
+  readonly retryable = false;
+
+  get retryHint(): string {
+    return "Retrying will not help until the budget is raised.";
+  }
+}
+
+/**
+ * Token usage per session, tool and Jina endpoint, checked against budgets.
+ * Calls billed to a key the client supplied only count towards their
+ * session: the server-wide budget protects the operator's key.
+ */
+export class UsageTracker {
+  private sessions = new Map<string, SessionUsage>();
+  private globalTotal = 0;
+
+  constructor(readonly budgets: UsageBudgets) {}
+
+  record(
+    sessionId: string,
+    tool: string,
+    endpoint: string,
+    tokens: number,
+    clientKey = false
+  ): void {
+    if (!(tokens > 0)) return;
+    const usage = this.usageFor(sessionId);
+    usage.total += tokens;
+    usage.byTool[tool] = (usage.byTool[tool] ?? 0) + tokens;
+    usage.byEndpoint[endpoint] = (usage.byEndpoint[endpoint] ?? 0) + tokens;
+    if (!clientKey) this.globalTotal += tokens;
+  }
+
+  /** Describe the exhausted budget, or return undefined if the session may continue. */
+  exceededBudget(sessionId: string, clientKey = false): string | undefined {
+    const { session, global } = this.budgets;
+    if (!clientKey && global !== undefined && this.globalTotal >= global) {
+      return `The server-wide Jina token budget of ${global} tokens has been used up (${this.globalTotal} used). Further requests are refused until the server is restarted or the budget is raised.`;
+    }
+    const used = this.sessions.get(sessionId)?.total ?? 0;
+    if (session !== undefined && used >= session) {
+      return `This session's Jina token budget of ${session} tokens has been used up (${used} used). Start a new session or ask the operator to raise the budget.`;
+    }
+    return undefined;
+  }
+
+  /** Throw if the session or the server has exhausted its budget. */
+  assertWithinBudget(sessionId: string, clientKey = false): void {
+    const message = this.exceededBudget(sessionId, clientKey);
+    if (message) throw new BudgetExceededError(message);
+  }
+
+  session(sessionId: string): SessionUsage {
+    const usage = this.sessions.get(sessionId);
+    return usage
+      ? {
+          total: usage.total,
+          byTool: { ...usage.byTool },
+          byEndpoint: { ...usage.byEndpoint },
+        }
+      : { total: 0, byTool: {}, byEndpoint: {} };
+  }
+
+  get global(): number {
+    return this.globalTotal;
+  }
+
+  /** Drop the per-session counters of a closed session; global usage is kept. */
+  release(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  private usageFor(sessionId: string): SessionUsage {
+    let usage = this.sessions.get(sessionId);
+    if (!usage) {
+      usage = { total: 0, byTool: {}, byEndpoint: {} };
+      this.sessions.set(sessionId, usage);
+    }
+    return usage;
+  }
+}
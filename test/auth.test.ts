@@ -0,0 +1,183 @@
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import express from "express";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  IntrospectionTokenVerifier,
+  StaticTokenVerifier,
+  createHttpAuth,
+} from "../src/auth.js";
+import { Listening, listen } from "./helpers.js";
+
+describe("StaticTokenVerifier", () => {
+  it("accepts listed tokens only", async () => {
+    const verifier = new StaticTokenVerifier(["alpha", "beta"], ["mcp"]);
+    await expect(verifier.verifyAccessToken("beta")).resolves.toMatchObject({
+      token: "beta",
+      clientId: "static-2",
+      scopes: ["mcp"],
+    });
+    await expect(verifier.verifyAccessToken("gamma")).rejects.toBeInstanceOf(
+      InvalidTokenError
+    );
+  });
+});
+
+describe("IntrospectionTokenVerifier", () => {
+  let server: Listening;
+  let introspected: { token: string; authorization?: string }[];
+  afterEach(() => server.close());
+
+  /** Start an authorization server that knows the given tokens. */
+  async function startIntrospection(
+    tokens: Record<string, object>
+  ): Promise<string> {
+    introspected = [];
+    const app = express();
+    app.post("/introspect", express.urlencoded(), (req, res) => {
+      introspected.push({
+        token: req.body.token,
+        authorization: req.headers.authorization,
+      });
+      res.json(tokens[req.body.token] ?? { active: false });
+    });
+    server = await listen(app);
+    return `${server.url}/introspect`;
+  }
+
+  const resource = "https://mcp.example.com/mcp";
+  const exp = Math.floor(Date.now() / 1000) + 3600;
+
+  it("maps active tokens to auth info and caches the result", async () => {
+    const url = await startIntrospection({
+      good: { active: true, client_id: "team-a", scope: "mcp read", exp },
+    });
+    const verifier = new IntrospectionTokenVerifier(url, resource, {
+      clientId: "server",
+      clientSecret: "secret",
+    });
+    const info = await verifier.verifyAccessToken("good");
+    expect(info).toEqual({
+      token: "good",
+      clientId: "team-a",
+      scopes: ["mcp", "read"],
+      expiresAt: exp,
+    });
+    await verifier.verifyAccessToken("good");
+    expect(introspected).toEqual([
+      {
+        token: "good",
+        authorization: `Basic ${Buffer.from("server:secret").toString("base64")}`,
+      },
+    ]);
+  });
+
+  it("rejects inactive tokens and tokens for another resource", async () => {
+    const url = await startIntrospection({
+      other: { active: true, aud: "https://elsewhere.example.com", exp },
+    });
+    const verifier = new IntrospectionTokenVerifier(url, resource);
+    await expect(verifier.verifyAccessToken("unknown")).rejects.toThrow(
+      "Token is not active"
+    );
+    await expect(verifier.verifyAccessToken("other")).rejects.toThrow(
+      "Token was not issued for this server"
+    );
+  });
+
+  it("evicts the least recently used token once the cache is full", async () => {
+    const url = await startIntrospection({
+      a: { active: true, exp },
+      b: { active: true, exp },
+      c: { active: true, exp },
+    });
+    const verifier = new IntrospectionTokenVerifier(
+      url,
+      resource,
+      undefined,
+      2
+    );
+    await verifier.verifyAccessToken("a");
+    await verifier.verifyAccessToken("b");
+    await verifier.verifyAccessToken("a");
+    await verifier.verifyAccessToken("c");
+    await verifier.verifyAccessToken("a");
+    await verifier.verifyAccessToken("b");
+    expect(introspected.map(({ token }) => token)).toEqual([
+      "a",
+      "b",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("does not cache rejected or already expired tokens", async () => {
+    const url = await startIntrospection({
+      expired: { active: true, exp: Math.floor(Date.now() / 1000) - 1 },
+    });
+    const verifier = new IntrospectionTokenVerifier(url, resource);
+    for (const token of ["unknown", "unknown", "expired", "expired"]) {
+      await verifier.verifyAccessToken(token).catch(() => {});
+    }
+    expect(introspected).toHaveLength(4);
+  });
+});
+
+describe("createHttpAuth", () => {
+  let server: Listening;
+  afterEach(() => server?.close());
+
+  it("is disabled without tokens or an issuer", async () => {
+    await expect(
+      createHttpAuth(
+        { tokens: [], oauth: undefined, serverUrl: undefined },
+        new URL("http://localhost:3001/mcp")
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it("serves protected resource metadata for an OAuth issuer", async () => {
+    const app = express();
+    server = await listen(app);
+    app.get("/.well-known/oauth-authorization-server", (_req, res) => {
+      res.json({
+        issuer: server.url,
+        authorization_endpoint: `${server.url}/authorize`,
+        token_endpoint: `${server.url}/token`,
+        introspection_endpoint: `${server.url}/introspect`,
+        response_types_supported: ["code"],
+      });
+    });
+
+    const auth = await createHttpAuth(
+      {
+        tokens: [],
+        oauth: {
+          issuer: server.url,
+          introspectionUrl: undefined,
+          clientId: undefined,
+          clientSecret: undefined,
+          scopes: ["mcp"],
+        },
+        serverUrl: undefined,
+      },
+      new URL("http://localhost:3001/mcp")
+    );
+    expect(auth?.metadata).toBeDefined();
+
+    const resourceServer = express();
+    resourceServer.use(auth!.metadata!);
+    const resource = await listen(resourceServer);
+    try {
+      const response = await fetch(
+        `${resource.url}/.well-known/oauth-protected-resource/mcp`
+      );
+      await expect(response.json()).resolves.toMatchObject({
+        resource: "http://localhost:3001/mcp",
+        authorization_servers: [server.url],
+        scopes_supported: ["mcp"],
+      });
+    } finally {
+      await resource.close();
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { dedupeUrls } from "../src/batchRead.js";
+
+describe("dedupeUrls", () => {
+  it("separates unique, duplicate and invalid URLs", () => {
+    expect(
+      dedupeUrls([
+        "https://example.com/a",
+        "https://EXAMPLE.com/a#top",
+        "https://example.com/b",
+        "nope",
+      ])
+    ).toEqual({
+      unique: ["https://example.com/a", "https://example.com/b"],
+      duplicates: ["https://EXAMPLE.com/a#top"],
+      invalid: [{ url: "nope", error: "Invalid URL" }],
+    });
+  });
+});
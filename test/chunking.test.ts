@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  chunkContent,
+  chunkContents,
+  chunkMarkdown,
+  estimateTokens,
+} from "../src/chunking.js";
+import { logger } from "../src/log.js";
+
+const options = { targetTokens: 40, overlapTokens: 0 };
+
+const page = `# Guide
+
+## Install
+
+${"Install the package with your package manager. ".repeat(4)}
+
+\`\`\`
+npm install example
+\`\`\`
+
+## Usage
+
+${"Call the function with a query to get results. ".repeat(4)}
+`;
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token, and one per CJK character", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("漢字")).toBe(2);
+  });
+});
+
+describe("chunkMarkdown", () => {
+  it("prefixes chunks with their heading path", () => {
+    const chunks = chunkMarkdown(page, options);
+    expect(chunks[0].startsWith("Guide > Install\n\n")).toBe(true);
+    expect(chunks[chunks.length - 1].startsWith("Guide > Usage\n\n")).toBe(
+      true
+    );
+  });
+
+  it("keeps fenced code blocks intact", () => {
+    const chunks = chunkMarkdown(page, options);
+    expect(
+      chunks.some((chunk) => chunk.includes("```\nnpm install example\n```"))
+    ).toBe(true);
+  });
+
+  it("returns nothing for empty content", () => {
+    expect(chunkMarkdown("", options)).toEqual([]);
+  });
+
+  it("keeps overlap out of split code blocks", () => {
+    const lines = Array.from(
+      { length: 40 },
+      (_, i) => `const value${i} = compute(${i});`
+    );
+    const markdown = `# Code\n\nSome words before the example.\n\n\`\`\`ts\n${lines.join("\n")}\n\`\`\`\n\nSome words after the example.`;
+    const chunks = chunkMarkdown(markdown, { ...options, overlapTokens: 10 });
+    const bodies = chunks.map((chunk) => chunk.slice("Code\n\n".length));
+    const code = bodies.filter((body) => body.includes("compute("));
+    expect(code.length).toBeGreaterThan(1);
+    for (const body of code.slice(1)) {
+      expect(body.startsWith("```ts\n")).toBe(true);
+    }
+    expect(bodies[bodies.length - 1]).toBe("Some words after the example.");
+  });
+
+  it("keeps overlap out of split tables", () => {
+    const rows = Array.from(
+      { length: 40 },
+      (_, i) => `| row ${i} | value ${i} |`
+    );
+    const markdown = `# Table\n\nSome words before the table.\n\n| Name | Value |\n| --- | --- |\n${rows.join("\n")}`;
+    const chunks = chunkMarkdown(markdown, { ...options, overlapTokens: 10 });
+    const bodies = chunks.map((chunk) => chunk.slice("Table\n\n".length));
+    const table = bodies.filter((body) => body.includes("| row "));
+    expect(table.length).toBeGreaterThan(1);
+    for (const body of table.slice(1)) {
+      expect(body.startsWith("| Name | Value |\n| --- | --- |\n")).toBe(true);
+    }
+  });
+});
+
+describe("chunkContent", () => {
+  it("matches chunkMarkdown without a token counter", async () => {
+    await expect(chunkContent(page, options)).resolves.toEqual(
+      chunkMarkdown(page, options)
+    );
+  });
+
+  it("scales token estimates by the counted sample", async () => {
+    // Counting twice the estimate halves the text that fits in a chunk
+    const countTokens = vi.fn(
+      async (sample: string) => estimateTokens(sample) * 2
+    );
+    const chunks = await chunkContent(page, options, countTokens);
+    expect(countTokens).toHaveBeenCalledWith(page);
+    expect(chunks).toEqual(chunkMarkdown(page, { ...options, tokenScale: 2 }));
+  });
+
+  it("falls back to estimates when counting fails", async () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => {});
+    const chunks = await chunkContent(page, options, async () => {
+      throw new Error("segmenter down");
+    });
+    expect(chunks).toEqual(chunkMarkdown(page, options));
+    expect(warn).toHaveBeenCalledWith(
+      "Segmenter failed, using estimated token counts",
+      { error: new Error("segmenter down") }
+    );
+    warn.mockRestore();
+  });
+});
+
+describe("chunkContents", () => {
+  it("counts one sample drawn from every page", async () => {
+    const other = "# Other\n\nA different page about something else.";
+    const countTokens = vi.fn(
+      async (sample: string) => estimateTokens(sample) * 2
+    );
+    const chunks = await chunkContents([page, "", other], options, countTokens);
+    expect(countTokens).toHaveBeenCalledTimes(1);
+    expect(countTokens).toHaveBeenCalledWith(`${page}\n\n${other}`);
+    expect(chunks).toEqual([
+      chunkMarkdown(page, { ...options, tokenScale: 2 }),
+      [],
+      chunkMarkdown(other, { ...options, tokenScale: 2 }),
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { EmbeddingOptions, EmbeddingResponse } from "../schemas.js";
+import {
+  EMBEDDING_TOKEN_LIMIT,
+  cosineSimilarity,
+  embedAllTexts,
+  embedTexts,
+  processBatch,
+} from "../src/embeddings.js";
+import { InvalidInputError } from "../src/errors.js";
+import { JinaClient } from "../src/jinaClient.js";
+import { MockJinaServer, startMockJina } from "../src/mockJina.js";
+import { testContext } from "./helpers.js";
+
+/** A client whose embed calls are answered by `respond`, without caching. */
+function fakeClient(respond: (batch: string[]) => EmbeddingResponse) {
+  const embed = vi.fn(async (batch: string[]) => respond(batch));
+  const client = {
+    embed,
+    cachingEnabled: false,
+    cached: async () => undefined,
+    store: async () => {},
+  } as unknown as JinaClient;
+  return { client, embed };
+}
+
+/** One-dimensional embedding identifying a text by its length. */
+const lengthEmbedding = (text: string) => [text.length];
+
+describe("processBatch", () => {
+  it("restores input order from the response indices", async () => {
+    const { client } = fakeClient((batch) => ({
+      data: [2, 0, 1].map((index) => ({
+        index,
+        embedding: lengthEmbedding(batch[index]),
+      })),
+    }));
+    await expect(processBatch(client, ["a", "bb", "ccc"])).resolves.toEqual([
+      [1],
+      [2],
+      [3],
+    ]);
+  });
+
+  it("keeps the response order when indices are missing", async () => {
+    const { client } = fakeClient((batch) => ({
+      data: [...batch].reverse().map((text) => ({
+        embedding: lengthEmbedding(text),
+      })),
+    }));
+    await expect(processBatch(client, ["a", "bb"])).resolves.toEqual([
+      [2],
+      [1],
+    ]);
+  });
+
+  it("falls back to the response order when an index is out of range", async () => {
+    const { client } = fakeClient((batch) => ({
+      data: batch.map((text, i) => ({
+        index: i === 0 ? 5 : i,
+        embedding: lengthEmbedding(text),
+      })),
+    }));
+    await expect(processBatch(client, ["a", "bb"])).resolves.toEqual([
+      [1],
+      [2],
+    ]);
+  });
+
+  it("accepts the bare embeddings response format", async () => {
+    const { client } = fakeClient((batch) => ({
+      embeddings: batch.map(lengthEmbedding),
+    }));
+    await expect(processBatch(client, ["a", "bb"])).resolves.toEqual([
+      [1],
+      [2],
+    ]);
+  });
+
+  it("does not call Jina for an empty batch", async () => {
+    const { client, embed } = fakeClient(() => ({ embeddings: [] }));
+    await expect(processBatch(client, [])).resolves.toEqual([]);
+    expect(embed).not.toHaveBeenCalled();
+  });
+});
+
+describe("embedTexts", () => {
+  const respond = (batch: string[]): EmbeddingResponse => ({
+    data: batch.map((text, index) => ({
+      index,
+      embedding: lengthEmbedding(text),
+    })),
+  });
+
+  it("splits texts into batches within the token limit", async () => {
+    const { client, embed } = fakeClient(respond);
+    // Each text is about 60% of the limit, so no two fit in one batch
+    const text = (c: string) => c.repeat(EMBEDDING_TOKEN_LIMIT * 4 * 0.6);
+    const texts = [text("a"), text("b"), text("c")];
+    const embeddings = await embedTexts(client, texts);
+    expect(embed).toHaveBeenCalledTimes(3);
+    expect(embed.mock.calls.map(([batch]) => batch)).toEqual(
+      texts.map((t) => [t])
+    );
+    expect(embeddings).toEqual(texts.map(lengthEmbedding));
+  });
+
+  it("sends small texts in a single batch", async () => {
+    const { client, embed } = fakeClient(respond);
+    await embedTexts(client, ["one", "two", "three"]);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed.mock.calls[0][0]).toEqual(["one", "two", "three"]);
+  });
+
+  it("drops empty and oversized texts", async () => {
+    const { client, embed } = fakeClient(respond);
+    const oversized = "x".repeat(EMBEDDING_TOKEN_LIMIT * 4 + 40);
+    const embeddings = await embedTexts(client, ["  ", "kept", oversized]);
+    expect(embed.mock.calls[0][0]).toEqual(["kept"]);
+    expect(embeddings).toEqual([[4]]);
+  });
+
+  describe("with caching", () => {
+    let mock: MockJinaServer;
+    beforeAll(async () => {
+      mock = await startMockJina();
+    });
+    afterAll(() => mock.close());
+
+    it("only sends texts missing from the cache", async () => {
+      const { client } = testContext(mock.urls);
+      const embed = vi.spyOn(client, "embed");
+      const options: EmbeddingOptions = {
+        model: "jina-embeddings-v3",
+        task: "text-matching",
+      };
+      const first = await embedTexts(client, ["alpha", "beta"], options);
+      const second = await embedTexts(client, ["beta", "gamma"], options);
+      expect(embed.mock.calls.map(([batch]) => batch)).toEqual([
+        ["alpha", "beta"],
+        ["gamma"],
+      ]);
+      expect(second[0]).toEqual(first[1]);
+    });
+
+    it("bypasses the per-text cache with late chunking", async () => {
+      const { client } = testContext(mock.urls);
+      const embed = vi.spyOn(client, "embed");
+      await embedTexts(client, ["alpha"]);
+      await embedTexts(client, ["alpha"]);
+      expect(embed).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe("embedAllTexts", () => {
+  it("rejects empty texts instead of dropping them", async () => {
+    const { client } = fakeClient(() => ({ embeddings: [] }));
+    await expect(
+      embedAllTexts(client, ["fine", " "], { model: "jina-embeddings-v3" })
+    ).rejects.toThrow(new InvalidInputError("Text 2 is empty."));
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("scores identical, orthogonal and zero vectors", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import { InMemoryEventStore } from "../src/eventStore.js";
+
+const message = (id: number): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  id,
+  result: {},
+});
+
+/** Messages replayed after `lastEventId`, by their request id. */
+async function replayed(
+  store: InMemoryEventStore,
+  lastEventId: string
+): Promise<unknown[]> {
+  const ids: unknown[] = [];
+  await store.replayEventsAfter(lastEventId, {
+    send: async (_eventId, sent) => {
+      ids.push("id" in sent ? sent.id : undefined);
+    },
+  });
+  return ids;
+}
+
+describe("InMemoryEventStore", () => {
+  it("replays the events of a stream after the last one seen", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("a", message(1));
+    await store.storeEvent("b", message(2));
+    await store.storeEvent("a", message(3));
+    expect(await replayed(store, first)).toEqual([3]);
+  });
+
+  it("caps the events kept across all streams", async () => {
+    const store = new InMemoryEventStore(3);
+    const first = await store.storeEvent("a", message(1));
+    const second = await store.storeEvent("b", message(2));
+    await store.storeEvent("c", message(3));
+    await store.storeEvent("c", message(4));
+
+    // Stream a lost its only event, and with it the stream itself
+    expect(await store.replayEventsAfter(first, { send: async () => {} })).toBe(
+      ""
+    );
+    expect(await replayed(store, second)).toEqual([]);
+    await store.storeEvent("d", message(5));
+    expect(
+      await store.replayEventsAfter(second, { send: async () => {} })
+    ).toBe("");
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Shared fixtures: a test configuration, stub Jina servers and an MCP client
+ * connected to the server in memory.
+ */
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import express, { Request, Response } from "express";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { ServerConfig, loadConfig } from "../src/config.js";
+import { ServerContext, createContext } from "../src/context.js";
+import { JinaUrls } from "../src/jinaClient.js";
+import { mockJinaUrls } from "../src/mockJina.js";
+import { createServer } from "../src/server.js";
+
+/** Configuration for tests: fast retries, no disk state, embeddings ranking. */
+export function testConfig(env: NodeJS.ProcessEnv = {}): ServerConfig {
+  return loadConfig({
+    JINA_API_KEY: "test-key",
+    JINA_RETRY_BASE_DELAY_MS: "1",
+    JINA_RETRY_MAX_DELAY_MS: "5",
+    ...env,
+  });
+}
+
+export type Listening = { url: string; close(): Promise<void> };
+
+/** Listen on a free local port. */
+export function listen(app: express.Express): Promise<Listening> {
+  return new Promise((resolve, reject) => {
+    const server: Server = app.listen(0, "127.0.0.1");
+    server.once("error", reject);
+    server.once("listening", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+export type StubRequest = {
+  path: string;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+};
+
+export type StubJina = Listening & {
+  urls: JinaUrls;
+  requests: StubRequest[];
+};
+
+/**
+ * Start a Jina stub whose every POST is recorded and answered by `handler`,
+ * laid out like the mock server so `urls` can be passed to a context.
+ */
+export async function startStubJina(
+  handler: (req: Request, res: Response, attempt: number) => void
+): Promise<StubJina> {
+  const requests: StubRequest[] = [];
+  const app = express();
+  app.use(express.json());
+  app.post(/.*/, (req, res) => {
+    requests.push({ path: req.path, body: req.body, headers: req.headers });
+    handler(req, res, requests.length);
+  });
+  const server = await listen(app);
+  return { ...server, urls: mockJinaUrls(server.url), requests };
+}
+
+/** Create a context whose endpoints all point at `urls`. */
+export function testContext(
+  urls: JinaUrls,
+  env: NodeJS.ProcessEnv = {}
+): ServerContext {
+  return createContext(testConfig(env), urls);
+}
+
+export type Connected = {
+  client: Client;
+  server: McpServer;
+  close(): Promise<void>;
+};
+
+/** Connect an MCP client to a fresh server over an in-memory transport. */
+export async function connectClient(
+  context: ServerContext
+): Promise<Connected> {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const server = createServer(context);
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return {
+    client,
+    server,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
+
+/** Call a tool and return the text of its content blocks. */
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>
+): Promise<{ isError: boolean; texts: string[] }> {
+  const result = (await client.callTool({
+    name,
+    arguments: args,
+  })) as CallToolResult;
+  return {
+    isError: result.isError === true,
+    texts: result.content.map((item) =>
+      item.type === "text" ? item.text : `[${item.type}]`
+    ),
+  };
+}
@@ -0,0 +1,333 @@
+import express from "express";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AuthenticationError,
+  CancelledError,
+  InvalidInputError,
+  RateLimitError,
+  SchemaMismatchError,
+  TimeoutError,
+  UpstreamError,
+} from "../src/errors.js";
+import { normalizeSite } from "../src/jinaClient.js";
+import { mockJinaUrls } from "../src/mockJina.js";
+import { UsageContext, usageContext } from "../src/usage.js";
+import { StubJina, listen, startStubJina, testContext } from "./helpers.js";
+
+const searchResponse = {
+  code: 200,
+  status: 20000,
+  data: [
+    {
+      title: "Result",
+      description: "A result",
+      url: "https://example.com/result",
+      content: "Result content",
+      usage: { tokens: 12 },
+    },
+  ],
+};
+
+describe("JinaClient", () => {
+  let stub: StubJina;
+  afterEach(() => stub.close());
+
+  it("retries 5xx responses until one succeeds", async () => {
+    stub = await startStubJina((_req, res, attempt) => {
+      if (attempt < 3) res.status(503).send("busy");
+      else res.json(searchResponse);
+    });
+    const { client } = testContext(stub.urls);
+    const response = await client.search("query");
+    expect(response.data[0].url).toBe("https://example.com/result");
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it("gives up after the configured attempts", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.status(502).send("bad gateway");
+    });
+    const { client } = testContext(stub.urls, { JINA_MAX_RETRIES: "1" });
+    await expect(client.search("query")).rejects.toThrow(
+      new UpstreamError("Jina search API returned 502 Bad Gateway: bad gateway")
+    );
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it("does not retry client errors", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.status(400).send("bad query");
+    });
+    const { client } = testContext(stub.urls);
+    await expect(client.search("query")).rejects.toBeInstanceOf(
+      InvalidInputError
+    );
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("reports authentication failures", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.status(401).send("invalid key");
+    });
+    const { client } = testContext(stub.urls);
+    await expect(client.search("query")).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+  });
+
+  it("tells clients to check their own key when it is rejected", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.status(401).send("invalid key");
+    });
+    const { client } = testContext(stub.urls);
+    const server = await client.search("query").catch((e) => e);
+    expect(server.retryHint).toMatch(/ask the operator to check JINA_API_KEY/);
+    const own = await client
+      .withApiKey("client-key")
+      .search("query")
+      .catch((e) => e);
+    expect(own.retryHint).toMatch(/sent in the X-Jina-Api-Key header/);
+  });
+
+  it("retries 429 responses and reports persistent rate limiting", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.status(429).set("Retry-After", "0").send("slow down");
+    });
+    const { client } = testContext(stub.urls, { JINA_MAX_RETRIES: "2" });
+    await expect(client.search("query")).rejects.toBeInstanceOf(RateLimitError);
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it("does not retry before a Retry-After beyond the maximum delay", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.status(429).set("Retry-After", "60").send("slow down");
+    });
+    const { client } = testContext(stub.urls);
+    const error = await client.search("query").catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryHint).toBe(
+      "Jina is rate limiting requests; retry after 60s."
+    );
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("rejects responses that do not match the schema", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.json({ data: [{ title: 1 }] });
+    });
+    const { client } = testContext(stub.urls);
+    await expect(client.search("query")).rejects.toBeInstanceOf(
+      SchemaMismatchError
+    );
+  });
+
+  it("does not cache responses that do not match the schema", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.json({ data: [{ title: 1 }] });
+    });
+    const { client } = testContext(stub.urls);
+    for (let i = 0; i < 2; i++) {
+      await expect(client.search("query")).rejects.toBeInstanceOf(
+        SchemaMismatchError
+      );
+    }
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it("sends the API key and search options", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.json(searchResponse);
+    });
+    const { client } = testContext(stub.urls);
+    await client.search("query", {
+      count: 3,
+      page: 2,
+      site: "https://Docs.Example.com/path",
+    });
+    const [request] = stub.requests;
+    expect(request.path).toBe("/s/");
+    expect(request.body).toEqual({ q: "query", num: 3, page: 2 });
+    expect(request.headers.authorization).toBe("Bearer test-key");
+    expect(request.headers["x-site"]).toBe("docs.example.com");
+  });
+
+  it("serves repeated requests from the cache", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.json(searchResponse);
+    });
+    const { client, cache } = testContext(stub.urls);
+    await client.search("query");
+    await client.search("query");
+    await client.search("other");
+    expect(stub.requests).toHaveLength(2);
+    expect(cache.getStats().namespaces.search).toMatchObject({
+      hits: 1,
+      misses: 2,
+    });
+  });
+
+  it("does not cache when caching is disabled", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.json(searchResponse);
+    });
+    const { client } = testContext(stub.urls, { JINA_CACHE: "off" });
+    await client.search("query");
+    await client.search("query");
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it("keeps the cache entries of other API keys apart", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.json(searchResponse);
+    });
+    const { client } = testContext(stub.urls);
+    const teamA = client.withApiKey("key-a");
+    await teamA.search("query");
+    await teamA.search("query");
+    await client.search("query");
+    await client.withApiKey("key-b").search("query");
+    expect(stub.requests.map((r) => r.headers.authorization)).toEqual([
+      "Bearer key-a",
+      "Bearer test-key",
+      "Bearer key-b",
+    ]);
+  });
+
+  it("stops retrying once the call is cancelled", async () => {
+    const controller = new AbortController();
+    stub = await startStubJina((_req, res) => {
+      controller.abort();
+      res.status(503).send("busy");
+    });
+    const { client } = testContext(stub.urls);
+    const context: UsageContext = {
+      sessionId: "session",
+      tool: "search",
+      tokens: 0,
+      signal: controller.signal,
+    };
+    await expect(
+      usageContext.run(context, () => client.search("query"))
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("aborts the request in flight when the call is cancelled", async () => {
+    const controller = new AbortController();
+    let aborted = false;
+    stub = await startStubJina((_req, res) => {
+      res.on("close", () => (aborted = true));
+      controller.abort();
+    });
+    const { client } = testContext(stub.urls);
+    const context: UsageContext = {
+      sessionId: "session",
+      tool: "search",
+      tokens: 0,
+      signal: controller.signal,
+    };
+    await expect(
+      usageContext.run(context, () => client.search("query"))
+    ).rejects.toBeInstanceOf(CancelledError);
+    await vi.waitFor(() => expect(aborted).toBe(true));
+  });
+
+  it("closes the circuit after a cancelled probe", async () => {
+    const controller = new AbortController();
+    stub = await startStubJina((_req, res, attempt) => {
+      if (attempt === 1) res.status(503).send("busy");
+      else if (attempt === 2) controller.abort();
+      else res.json(searchResponse);
+    });
+    const { client } = testContext(stub.urls, {
+      JINA_MAX_RETRIES: "0",
+      JINA_CIRCUIT_FAILURE_THRESHOLD: "1",
+      JINA_CIRCUIT_RESET_MS: "0",
+    });
+    await expect(client.search("first")).rejects.toBeInstanceOf(UpstreamError);
+    const context: UsageContext = {
+      sessionId: "session",
+      tool: "search",
+      tokens: 0,
+      signal: controller.signal,
+    };
+    await expect(
+      usageContext.run(context, () => client.search("probe"))
+    ).rejects.toBeInstanceOf(CancelledError);
+    const response = await client.search("third");
+    expect(response.data[0].url).toBe("https://example.com/result");
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it("attributes tokens to the current usage context", async () => {
+    stub = await startStubJina((_req, res) => {
+      res.json(searchResponse);
+    });
+    const { client, usage } = testContext(stub.urls);
+    const context: UsageContext = {
+      sessionId: "session",
+      tool: "search",
+      tokens: 0,
+    };
+    await usageContext.run(context, () => client.search("query"));
+    expect(context.tokens).toBe(12);
+    expect(usage.session("session")).toEqual({
+      total: 12,
+      byTool: { search: 12 },
+      byEndpoint: { search: 12 },
+    });
+  });
+});
+
+describe("fetchImage", () => {
+  it("times out stalled downloads", async () => {
+    const app = express();
+    // Never answers
+    app.get("/shot.png", () => {});
+    const images = await listen(app);
+    try {
+      const { client } = testContext(mockJinaUrls(images.url), {
+        JINA_REQUEST_TIMEOUT_MS: "50",
+      });
+      await expect(
+        client.fetchImage(`${images.url}/shot.png`)
+      ).rejects.toBeInstanceOf(TimeoutError);
+    } finally {
+      await images.close();
+    }
+  });
+
+  it("stops the download when the call is cancelled", async () => {
+    const controller = new AbortController();
+    const app = express();
+    app.get("/shot.png", () => controller.abort());
+    const images = await listen(app);
+    try {
+      const { client } = testContext(mockJinaUrls(images.url));
+      const context: UsageContext = {
+        sessionId: "session",
+        tool: "read-webpage",
+        tokens: 0,
+        signal: controller.signal,
+      };
+      await expect(
+        usageContext.run(context, () =>
+          client.fetchImage(`${images.url}/shot.png`)
+        )
+      ).rejects.toBeInstanceOf(CancelledError);
+    } finally {
+      await images.close();
+    }
+  });
+});
+
+describe("normalizeSite", () => {
+  it("reduces URLs to their hostname", () => {
+    expect(normalizeSite("https://Docs.Python.org/3/")).toBe("docs.python.org");
+    expect(normalizeSite("example.com")).toBe("example.com");
+  });
+
+  it("rejects values that are not domains", () => {
+    expect(() => normalizeSite("not a domain")).toThrow(InvalidInputError);
+  });
+});
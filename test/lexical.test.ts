@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  bm25Scores,
+  dropNearDuplicates,
+  shingleSimilarity,
+  shingles,
+  tokenize,
+} from "../src/lexical.js";
+
+describe("tokenize", () => {
+  it("keeps identifiers and numbers whole", () => {
+    expect(
+      tokenize("Got ERR_CONNECTION_REFUSED from os.path.join (0x80070005)")
+    ).toEqual([
+      "got",
+      "err_connection_refused",
+      "from",
+      "os",
+      "path",
+      "join",
+      "0x80070005",
+    ]);
+  });
+});
+
+describe("bm25Scores", () => {
+  const chunks = [
+    "The request failed with ERR_CONNECTION_REFUSED after a retry.",
+    "Connections are retried with exponential backoff.",
+    "Unrelated text about gardening and tomatoes.",
+  ];
+
+  it("ranks exact term matches first and scores chunks without them 0", () => {
+    const scores = bm25Scores("ERR_CONNECTION_REFUSED retry", chunks);
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[2]).toBe(0);
+  });
+
+  it("weighs rare terms above common ones", () => {
+    const [common, , rare] = bm25Scores("retry timeout", [
+      "retry now",
+      "retry later",
+      "timeout here",
+    ]);
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  it("scores everything 0 for a query without words", () => {
+    expect(bm25Scores("  ?! ", chunks)).toEqual([0, 0, 0]);
+  });
+});
+
+describe("shingleSimilarity", () => {
+  it("is 1 for identical text and 0 for disjoint text", () => {
+    const text = shingles("the quick brown fox jumps");
+    expect(
+      shingleSimilarity(text, shingles("The quick brown fox jumps!"))
+    ).toBe(1);
+    expect(shingleSimilarity(text, shingles("a lazy sleeping dog"))).toBe(0);
+  });
+});
+
+describe("dropNearDuplicates", () => {
+  it("keeps the first copy of a passage across groups", () => {
+    const notice =
+      "Subscribe to our newsletter to get the latest updates delivered to your inbox every week.";
+    expect(
+      dropNearDuplicates([
+        ["First result body", notice],
+        [`${notice} `, "Second result body", "first RESULT body"],
+      ])
+    ).toEqual([["First result body", notice], ["Second result body"]]);
+  });
+});
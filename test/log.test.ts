@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  LogRecord,
+  addLogSink,
+  configureLogging,
+  logger,
+  withLogContext,
+} from "../src/log.js";
+
+/** Collect the records logged while `fn` runs. */
+function capture(fn: () => void): LogRecord[] {
+  const records: LogRecord[] = [];
+  const remove = addLogSink((record) => records.push(record));
+  try {
+    fn();
+  } finally {
+    remove();
+  }
+  return records;
+}
+
+/** Collect what is written to stdout while `fn` runs. */
+function output(fn: () => void): string[] {
+  const lines: string[] = [];
+  const write = vi
+    .spyOn(process.stdout, "write")
+    .mockImplementation((chunk: string | Uint8Array) => {
+      lines.push(String(chunk).trimEnd());
+      return true;
+    });
+  try {
+    fn();
+  } finally {
+    write.mockRestore();
+  }
+  return lines;
+}
+
+afterEach(() => {
+  configureLogging({ level: "info", format: "json", userContent: false });
+});
+
+describe("logger", () => {
+  it("writes JSON lines at or above the configured level", () => {
+    configureLogging({ level: "warning" });
+    const lines = output(() => {
+      logger.info("ignored");
+      logger.warn("Disk almost full", { free: 3 });
+    });
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual({
+      time: expect.any(String),
+      level: "warning",
+      msg: "Disk almost full",
+      free: 3,
+    });
+  });
+
+  it("writes plain text when asked to", () => {
+    configureLogging({ format: "text" });
+    const [line] = output(() => logger.error("Failed", { status: 500 }));
+    expect(line).toMatch(/^\S+ ERROR Failed status=500$/);
+  });
+
+  it("adds the session, request and tool it was logged for", () => {
+    const [record] = capture(() =>
+      withLogContext({ sessionId: "s1", requestId: 7, tool: "search" }, () =>
+        logger.debug("Calling Jina")
+      )
+    );
+    expect(record).toMatchObject({
+      sessionId: "s1",
+      requestId: 7,
+      tool: "search",
+      msg: "Calling Jina",
+    });
+  });
+
+  it("redacts credentials", () => {
+    const [record] = capture(() =>
+      logger.warn("Request with Bearer jina_abcdef1234567890 failed", {
+        headers: { Authorization: "Bearer secret", Accept: "json" },
+        apiKey: "jina_abcdef1234567890",
+        tokens: 42,
+        error: new Error("key jina_abcdef1234567890 is invalid"),
+      })
+    );
+    expect(record).toMatchObject({
+      msg: "Request with Bearer [redacted] failed",
+      headers: { Authorization: "[redacted]", Accept: "json" },
+      apiKey: "[redacted]",
+      tokens: 42,
+      error: { name: "Error", message: "key jina_[redacted] is invalid" },
+    });
+  });
+
+  it("redacts client text unless user content logging is on", () => {
+    const log = () =>
+      logger.info("Executing search tool", {
+        query: "private question",
+        texts: ["a", "b"],
+        url: "https://example.com",
+      });
+    expect(capture(log)[0]).toMatchObject({
+      query: "[16 chars]",
+      texts: "[2 items]",
+      url: "https://example.com",
+    });
+    configureLogging({ userContent: true });
+    expect(capture(log)[0]).toMatchObject({
+      query: "private question",
+      texts: ["a", "b"],
+    });
+  });
+});
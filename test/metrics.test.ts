@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { Counter, Histogram, Metrics } from "../src/metrics.js";
+
+describe("Counter", () => {
+  it("counts per label set", () => {
+    const counter = new Counter("calls_total", "Calls.");
+    counter.inc({ tool: "search" });
+    counter.inc({ tool: "search" }, 2);
+    counter.inc({ tool: 'say "hi"' });
+    expect(counter.get({ tool: "search" })).toBe(3);
+    expect(counter.render()).toEqual([
+      "# HELP calls_total Calls.",
+      "# TYPE calls_total counter",
+      'calls_total{tool="search"} 3',
+      'calls_total{tool="say \\"hi\\""} 1',
+    ]);
+  });
+});
+
+describe("Histogram", () => {
+  it("renders cumulative buckets, sum and count", () => {
+    const histogram = new Histogram("duration_seconds", "Durations.", [0.1, 1]);
+    histogram.observe({ endpoint: "reader" }, 0.05);
+    histogram.observe({ endpoint: "reader" }, 0.5);
+    histogram.observe({ endpoint: "reader" }, 2);
+    expect(histogram.render()).toEqual([
+      "# HELP duration_seconds Durations.",
+      "# TYPE duration_seconds histogram",
+      'duration_seconds_bucket{le="0.1",endpoint="reader"} 1',
+      'duration_seconds_bucket{le="1",endpoint="reader"} 2',
+      'duration_seconds_bucket{le="+Inf",endpoint="reader"} 3',
+      'duration_seconds_sum{endpoint="reader"} 2.55',
+      'duration_seconds_count{endpoint="reader"} 3',
+    ]);
+  });
+});
+
+describe("Metrics", () => {
+  it("renders every metric and the given gauges", () => {
+    const metrics = new Metrics();
+    metrics.toolCalls.inc({ tool: "search", outcome: "success" });
+    const text = metrics.render([
+      { name: "sessions_active", help: "Sessions.", value: 2 },
+    ]);
+    expect(text).toContain(
+      'jina_mcp_tool_calls_total{outcome="success",tool="search"} 1\n'
+    );
+    expect(text).toContain("# TYPE jina_mcp_jina_retries_total counter\n");
+    expect(
+      text.endsWith("# TYPE sessions_active gauge\nsessions_active 2\n")
+    ).toBe(true);
+  });
+});
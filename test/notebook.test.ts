@@ -0,0 +1,38 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { NotebookPage, NotebookStore } from "../src/notebook.js";
+
+const page: NotebookPage = {
+  url: "https://example.com/page",
+  title: "Page",
+  source: "read-webpage",
+  addedAt: "2026-01-01T00:00:00.000Z",
+  chunks: [{ text: "About the page", embedding: [1, 0] }],
+};
+
+describe("NotebookStore", () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "notebooks-"));
+  });
+  afterEach(() => rm(directory, { recursive: true, force: true }));
+
+  it("reloads a persisted notebook", async () => {
+    await (await new NotebookStore(directory).get("stdio")).add(page);
+    const reloaded = await new NotebookStore(directory).get("stdio");
+    expect(reloaded.list()).toEqual([page]);
+  });
+
+  it("deletes the file of a released session", async () => {
+    const store = new NotebookStore(directory);
+    await (await store.get("session-1")).add(page);
+    const file = path.join(directory, "session-1.json");
+    expect(existsSync(file)).toBe(true);
+
+    await store.release("session-1");
+    expect(existsSync(file)).toBe(false);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, it, vi } from "vitest";
+import { RerankResponse } from "../schemas.js";
+import { CancelledError, UpstreamError } from "../src/errors.js";
+import { JinaClient } from "../src/jinaClient.js";
+import { logger } from "../src/log.js";
+import {
+  DEFAULT_HYBRID_OPTIONS,
+  diversify,
+  fuseScores,
+  once,
+  rankByEmbeddings,
+  rankByReranker,
+  rankHybrid,
+  selectTopChunks,
+} from "../src/ranking.js";
+
+const chunks = ["about cats", "about dogs", "about birds"];
+
+/** Embeds each chunk as a unit vector along its own axis. */
+function fakeClient(rerank: () => Promise<RerankResponse>) {
+  const client = {
+    rerank: vi.fn(rerank),
+    embed: vi.fn(async (batch: string[]) => ({
+      data: batch.map((text, index) => ({
+        index,
+        embedding: chunks.map((c) => (c === text ? 1 : 0)),
+      })),
+    })),
+    cachingEnabled: false,
+  } as unknown as JinaClient;
+  return client;
+}
+
+describe("rankByReranker", () => {
+  it("orders chunks by relevance and skips invalid indices", async () => {
+    const client = fakeClient(async () => ({
+      results: [
+        { index: 0, relevance_score: 0.2 },
+        { index: 7, relevance_score: 0.9 },
+        { index: 2, relevance_score: 0.8 },
+      ],
+    }));
+    await expect(rankByReranker(client, "birds", chunks, 3)).resolves.toEqual([
+      { chunk: "about birds", score: 0.8 },
+      { chunk: "about cats", score: 0.2 },
+    ]);
+  });
+});
+
+describe("rankByEmbeddings", () => {
+  it("orders chunks by cosine similarity to the query", async () => {
+    const client = fakeClient(async () => ({ results: [] }));
+    const ranked = await rankByEmbeddings(client, [0, 1, 0], chunks);
+    expect(ranked.map((r) => r.chunk)).toEqual([
+      "about dogs",
+      "about cats",
+      "about birds",
+    ]);
+    expect(ranked[0].score).toBeCloseTo(1);
+  });
+
+  it("keeps the original order without a query embedding", async () => {
+    const client = fakeClient(async () => ({ results: [] }));
+    await expect(rankByEmbeddings(client, undefined, chunks)).resolves.toEqual(
+      chunks.map((chunk) => ({ chunk, score: 0 }))
+    );
+  });
+});
+
+describe("selectTopChunks", () => {
+  it("uses the reranker without embedding the query", async () => {
+    const client = fakeClient(async () => ({
+      results: [{ index: 1, relevance_score: 0.5 }],
+    }));
+    const getQueryEmbedding = vi.fn(async () => [1, 0, 0]);
+    const ranked = await selectTopChunks(
+      client,
+      "dogs",
+      chunks,
+      "rerank",
+      getQueryEmbedding,
+      1
+    );
+    expect(ranked).toEqual([{ chunk: "about dogs", score: 0.5 }]);
+    expect(getQueryEmbedding).not.toHaveBeenCalled();
+  });
+
+  it("falls back to embeddings when reranking fails", async () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => {});
+    const client = fakeClient(async () => {
+      throw new UpstreamError("reranker down");
+    });
+    const ranked = await selectTopChunks(
+      client,
+      "birds",
+      chunks,
+      "rerank",
+      async () => [0, 0, 1],
+      2
+    );
+    expect(ranked.map((r) => r.chunk)).toEqual(["about birds", "about cats"]);
+    expect(warn).toHaveBeenCalledWith(
+      "Reranking failed, falling back to embedding similarity",
+      { error: new UpstreamError("reranker down") }
+    );
+    warn.mockRestore();
+  });
+
+  it("falls back to keywords when reranking and embedding fail", async () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => {});
+    const client = fakeClient(async () => {
+      throw new UpstreamError("reranker down");
+    });
+    const ranked = await selectTopChunks(
+      client,
+      "cats",
+      chunks,
+      "rerank",
+      async () => {
+        throw new UpstreamError("embeddings down");
+      },
+      1
+    );
+    expect(ranked.map((r) => r.chunk)).toEqual(["about cats"]);
+    warn.mockRestore();
+  });
+
+  it("does not fall back once the call is cancelled", async () => {
+    const client = fakeClient(async () => {
+      throw new CancelledError("The request was cancelled.");
+    });
+    const getQueryEmbedding = vi.fn(async () => [1, 0, 0]);
+    await expect(
+      selectTopChunks(client, "cats", chunks, "rerank", getQueryEmbedding)
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(getQueryEmbedding).not.toHaveBeenCalled();
+  });
+
+  it("returns nothing for no chunks", async () => {
+    const client = fakeClient(async () => ({ results: [] }));
+    await expect(
+      selectTopChunks(client, "q", [], "rerank", async () => undefined)
+    ).resolves.toEqual([]);
+    expect(client.rerank).not.toHaveBeenCalled();
+  });
+});
+
+describe("fuseScores", () => {
+  it("combines ranks with reciprocal rank fusion", () => {
+    const fused = fuseScores([0.9, 0.5, 0.1], [0, 2, 1], {
+      fusion: "rrf",
+      semanticWeight: 0.5,
+    });
+    // Second in both rankings beats first in one and absent from the other
+    expect(fused[1]).toBeGreaterThan(fused[0]);
+    expect(fused[0]).toBeCloseTo(0.5 / 61);
+  });
+
+  it("combines scaled scores with weighted fusion", () => {
+    expect(
+      fuseScores([0.9, 0.5, 0.1], [0, 2, 1], {
+        fusion: "weighted",
+        semanticWeight: 0.25,
+      })
+    ).toEqual([0.25, 0.125 + 0.75, 0.375]);
+  });
+});
+
+describe("diversify", () => {
+  it("skips near duplicates and trades relevance for novelty", () => {
+    const texts = [
+      "cats purr loudly",
+      "cats purr loudly!",
+      "dogs bark",
+      "cats purr softly",
+    ];
+    const similarity = (a: number, b: number) =>
+      texts[a].startsWith("cats") && texts[b].startsWith("cats") ? 0.9 : 0;
+    expect(
+      diversify(texts, [1, 0.95, 0.5, 0.9], 3, 0, similarity).map(
+        (s) => s.chunk
+      )
+    ).toEqual(["cats purr loudly", "cats purr softly", "dogs bark"]);
+    expect(diversify(texts, [1, 0.95, 0.5, 0.9], 2, 0.5, similarity)).toEqual([
+      { chunk: "cats purr loudly", score: 1 },
+      { chunk: "dogs bark", score: 0.5 },
+    ]);
+  });
+});
+
+describe("rankHybrid", () => {
+  it("fuses keyword and embedding relevance", async () => {
+    const client = fakeClient(async () => ({ results: [] }));
+    // Embeddings favor cats, keywords favor birds
+    const ranked = await rankHybrid(
+      client,
+      "birds",
+      chunks,
+      async () => [1, 0, 0.2],
+      3,
+      { ...DEFAULT_HYBRID_OPTIONS, diversity: 0 }
+    );
+    expect(ranked.map((r) => r.chunk)).toEqual([
+      "about birds",
+      "about cats",
+      "about dogs",
+    ]);
+  });
+
+  it("ranks by keywords alone when embedding fails", async () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => {});
+    const client = fakeClient(async () => ({ results: [] }));
+    vi.mocked(client.embed).mockRejectedValue(new UpstreamError("down"));
+    const ranked = await rankHybrid(
+      client,
+      "dogs",
+      chunks,
+      async () => [0, 1, 0],
+      1,
+      DEFAULT_HYBRID_OPTIONS
+    );
+    expect(ranked.map((r) => r.chunk)).toEqual(["about dogs"]);
+    expect(warn).toHaveBeenCalledWith(
+      "Embedding failed, ranking chunks lexically",
+      { error: new UpstreamError("down") }
+    );
+    warn.mockRestore();
+  });
+});
+
+describe("once", () => {
+  it("runs the computation a single time", async () => {
+    const compute = vi.fn(async () => 42);
+    const memoized = once(compute);
+    await Promise.all([memoized(), memoized()]);
+    await expect(memoized()).resolves.toBe(42);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from "vitest";
+import { CancelledError } from "../src/errors.js";
+import {
+  CircuitBreaker,
+  RateLimiter,
+  parseRetryAfter,
+  retryDelay,
+  sleep,
+} from "../src/resilience.js";
+
+const backoff = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe("retryDelay", () => {
+  it("stays within the doubled ceiling", () => {
+    for (let attempt = 1; attempt <= 6; attempt++) {
+      const delay = retryDelay(attempt, backoff);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(
+        Math.min(100 * 2 ** (attempt - 1), 1000)
+      );
+    }
+  });
+
+  it("prefers Retry-After, unless it exceeds the maximum delay", () => {
+    expect(retryDelay(1, backoff, 300)).toBe(300);
+    expect(retryDelay(1, backoff, 1000)).toBe(1000);
+    expect(retryDelay(1, backoff, 5000)).toBeUndefined();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe("RateLimiter", () => {
+  it("limits the requests in flight", async () => {
+    const limiter = new RateLimiter(2);
+    let active = 0;
+    let peak = 0;
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        limiter.run(async () => {
+          peak = Math.max(peak, ++active);
+          await sleep(5);
+          active--;
+        })
+      )
+    );
+    expect(peak).toBe(2);
+  });
+
+  it("stops waiting for a slot once the signal aborts", async () => {
+    const limiter = new RateLimiter(1);
+    let release!: () => void;
+    const busy = limiter.run(() => new Promise<void>((r) => (release = r)));
+    const controller = new AbortController();
+    const task = vi.fn(async () => {});
+    const waiting = limiter.run(task, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+    release();
+    await busy;
+    await limiter.run(async () => {});
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe("sleep", () => {
+  it("rejects once the signal aborts", async () => {
+    const controller = new AbortController();
+    const sleeping = sleep(60_000, controller.signal);
+    controller.abort();
+    await expect(sleeping).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures and probes after the reset time", () => {
+    const breaker = new CircuitBreaker(2, 1000);
+    breaker.recordFailure(0);
+    expect(breaker.allowRequest(0)).toBe(true);
+    breaker.recordFailure(0);
+    expect(breaker.isOpen).toBe(true);
+    expect(breaker.allowRequest(500)).toBe(false);
+    expect(breaker.retryInMs(500)).toBe(500);
+
+    // A single probe is let through, and its failure reopens the circuit
+    expect(breaker.allowRequest(1000)).toBe(true);
+    expect(breaker.allowRequest(1000)).toBe(false);
+    breaker.recordFailure(1000);
+    expect(breaker.allowRequest(1500)).toBe(false);
+
+    expect(breaker.allowRequest(2000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.isOpen).toBe(false);
+  });
+
+  it("lets another request probe once a probe is released", () => {
+    const breaker = new CircuitBreaker(1, 1000);
+    breaker.recordFailure(0);
+    expect(breaker.allowRequest(1000)).toBe(true);
+    expect(breaker.allowRequest(1000)).toBe(false);
+    breaker.releaseProbe();
+    expect(breaker.isOpen).toBe(true);
+    expect(breaker.allowRequest(1000)).toBe(true);
+  });
+
+  it("never opens with a threshold of 0", () => {
+    const breaker = new CircuitBreaker(0, 1000);
+    for (let i = 0; i < 10; i++) breaker.recordFailure(0);
+    expect(breaker.allowRequest(0)).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it, vi } from "vitest";
+import { SessionRegistry } from "../src/sessions.js";
+
+/** A transport recording what the server sends and what reaches the server. */
+function fakeTransport() {
+  const sent: JSONRPCMessage[] = [];
+  const received: JSONRPCMessage[] = [];
+  const transport: Transport = {
+    start: async () => {},
+    send: async (message) => {
+      sent.push(message);
+    },
+    close: vi.fn(async () => {}),
+    onmessage: (message) => {
+      received.push(message);
+    },
+  };
+  return { transport, sent, received };
+}
+
+const request = (id: number): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  id,
+  method: "tools/call",
+  params: { name: "search", arguments: {} },
+});
+
+const response = (id: number): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  id,
+  result: { content: [] },
+});
+
+describe("SessionRegistry", () => {
+  it("counts requests until they are answered", async () => {
+    const sessions = new SessionRegistry({ maxSessions: 0, idleTimeoutMs: 0 });
+    const { transport, received } = fakeTransport();
+    sessions.add("a", transport);
+
+    transport.onmessage!(request(1));
+    transport.onmessage!(request(2));
+    expect(received).toHaveLength(2);
+    expect(sessions.pendingRequests).toBe(2);
+
+    await transport.send(response(1));
+    await transport.send({
+      jsonrpc: "2.0",
+      id: 2,
+      error: { code: -32603, message: "failed" },
+    });
+    expect(sessions.pendingRequests).toBe(0);
+  });
+
+  it("enforces the session limit", () => {
+    const sessions = new SessionRegistry({ maxSessions: 2, idleTimeoutMs: 0 });
+    sessions.add("a", fakeTransport().transport);
+    expect(sessions.hasCapacity).toBe(true);
+    sessions.add("b", fakeTransport().transport);
+    expect(sessions.hasCapacity).toBe(false);
+    sessions.remove("a");
+    expect(sessions.hasCapacity).toBe(true);
+  });
+
+  it("counts reserved slots against the session limit", () => {
+    const sessions = new SessionRegistry({ maxSessions: 2, idleTimeoutMs: 0 });
+    sessions.add("a", fakeTransport().transport);
+    const release = sessions.reserve();
+    expect(sessions.hasCapacity).toBe(false);
+    release();
+    release();
+    expect(sessions.hasCapacity).toBe(true);
+  });
+
+  it("expires idle sessions but not those with a request in flight", () => {
+    const sessions = new SessionRegistry({
+      maxSessions: 0,
+      idleTimeoutMs: 1000,
+    });
+    const idle = fakeTransport();
+    const busy = fakeTransport();
+    sessions.add("idle", idle.transport);
+    sessions.add("busy", busy.transport);
+    busy.transport.onmessage!(request(1));
+
+    expect(sessions.sweep(Date.now() + 500)).toEqual([]);
+    expect(sessions.sweep(Date.now() + 1000)).toEqual(["idle"]);
+    expect(idle.transport.close).toHaveBeenCalled();
+    expect(busy.transport.close).not.toHaveBeenCalled();
+    expect(sessions.get("idle")).toBeUndefined();
+    expect(sessions.size).toBe(1);
+  });
+
+  it("drains in-flight requests and refuses new ones before closing", async () => {
+    const sessions = new SessionRegistry({ maxSessions: 0, idleTimeoutMs: 0 });
+    const { transport, sent, received } = fakeTransport();
+    sessions.add("a", transport);
+    transport.onmessage!(request(1));
+
+    const drained = sessions.drain(5_000);
+    expect(sessions.isDraining).toBe(true);
+    transport.onmessage!(request(2));
+    expect(received).toHaveLength(1);
+    expect(sent).toEqual([
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        error: { code: -32000, message: "Server is shutting down" },
+      },
+    ]);
+
+    expect(transport.close).not.toHaveBeenCalled();
+    await transport.send(response(1));
+    await drained;
+    expect(transport.close).toHaveBeenCalled();
+    expect(sessions.size).toBe(0);
+  });
+
+  it("closes sessions once the shutdown timeout passes", async () => {
+    const sessions = new SessionRegistry({ maxSessions: 0, idleTimeoutMs: 0 });
+    const { transport } = fakeTransport();
+    sessions.add("a", transport);
+    transport.onmessage!(request(1));
+
+    await sessions.drain(10);
+    expect(transport.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,756 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  CallToolResult,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  TextResourceContents,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { STDIO_SESSION_ID, ServerContext } from "../src/context.js";
+import { MockJinaServer, startMockJina } from "../src/mockJina.js";
+import { pageUri } from "../src/resources.js";
+import { Connected, callTool, connectClient, testContext } from "./helpers.js";
+
+let mock: MockJinaServer;
+beforeAll(async () => {
+  mock = await startMockJina();
+});
+afterAll(() => mock.close());
+
+let connected: Connected | undefined;
+afterEach(async () => {
+  await connected?.close();
+  connected = undefined;
+});
+
+/** Connect to a server backed by the mock, without background notebook indexing. */
+async function connect(env: NodeJS.ProcessEnv = {}): Promise<{
+  client: Client;
+  context: ServerContext;
+}> {
+  const context = testContext(mock.urls, {
+    JINA_NOTEBOOK: "off",
+    JINA_MAX_RETRIES: "0",
+    ...env,
+  });
+  connected = await connectClient(context);
+  return { client: connected.client, context };
+}
+
+describe("tool listing", () => {
+  it("registers every tool", async () => {
+    const { client } = await connect();
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "search",
+      "fact-check",
+      "read-webpage",
+      "embed",
+      "similarity",
+      "notebook-query",
+      "notebook-list",
+      "notebook-clear",
+      "usage",
+      "cache-stats",
+      "deep-research",
+      "read-webpages",
+    ]);
+  });
+});
+
+describe("read-webpage", () => {
+  it("returns the title, resource link and relevant content", async () => {
+    const { client } = await connect();
+    const url = "https://example.com/install-guide";
+    await expect(callTool(client, "read-webpage", { url })).resolves.toEqual({
+      isError: false,
+      texts: [
+        `Title: Mock page: install guide
+URL: ${url}
+Full content: jina://page/https%3A%2F%2Fexample.com%2Finstall-guide
+
+Relevant Content:
+Mock page: install guide
+
+This page stands in for ${url}, served by the mock Jina Reader.
+
+install guide is described here in deterministic fixture text. The same URL always returns the same content, so tools and tests behave the same on every run.
+
+- First point about install guide
+- Second point about install guide
+- Source host: example.com
+
+\`\`\`
+GET ${url}
+\`\`\``,
+        "Jina tokens used: 226 (session total: 226)",
+      ],
+    });
+  });
+
+  it("returns screenshots as images", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "read-webpage", {
+      url: "https://example.com/shot",
+      format: "Screenshot",
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toMatch(
+      /^Title: Mock page: shot\nURL: https:\/\/example\.com\/shot\nScreenshot: http:\/\/127\.0\.0\.1:\d+\/screenshots\/.+\.png$/
+    );
+    expect(texts[1]).toBe("[image]");
+  });
+
+  it("reports upstream failures as tool errors", async () => {
+    const { client } = await connect();
+    await expect(
+      callTool(client, "read-webpage", {
+        url: "https://example.com/mock-status-503",
+      })
+    ).resolves.toEqual({
+      isError: true,
+      texts: [
+        `Reading webpage failed [upstream_error]: Jina reader API returned 503 Service Unavailable: {"code":503,"name":"MockError","message":"Mock failure with status 503"}
+This is likely temporary; retrying later may succeed.`,
+        "Jina tokens used: 0 (session total: 0)",
+      ],
+    });
+  });
+});
+
+describe("structured output", () => {
+  /** Call a tool after listing tools, so the client validates its output. */
+  async function callStructured(
+    client: Client,
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<CallToolResult> {
+    await client.listTools();
+    return (await client.callTool({ name, arguments: args })) as CallToolResult;
+  }
+
+  it("declares output schemas for search, fact-check and read-webpage", async () => {
+    const { client } = await connect();
+    const { tools } = await client.listTools();
+    expect(
+      tools.filter((tool) => tool.outputSchema).map((tool) => tool.name)
+    ).toEqual(["search", "fact-check", "read-webpage"]);
+  });
+
+  it("returns search results with their ranked chunks", async () => {
+    const { client } = await connect();
+    const result = await callStructured(client, "search", {
+      query: "vector databases",
+      count: 2,
+      page: 2,
+      top_k: 1,
+    });
+    expect(result.structuredContent).toEqual({
+      query: "vector databases",
+      page: 2,
+      results: [3, 4].map((position) => ({
+        position,
+        title: `Result ${position} for vector databases`,
+        url: `https://example.com/vector-databases/${position}`,
+        description: expect.any(String),
+        chunks: [{ text: expect.any(String), score: expect.any(Number) }],
+      })),
+    });
+  });
+
+  it("returns the page with its chunks and links", async () => {
+    const { client } = await connect();
+    const url = "https://example.com/install-guide";
+    const result = await callStructured(client, "read-webpage", {
+      url,
+      with_links: true,
+    });
+    expect(result.structuredContent).toEqual({
+      title: "Mock page: install guide",
+      url,
+      resource: pageUri(url),
+      chunks: [
+        {
+          text: expect.stringContaining("install guide"),
+          score: expect.any(Number),
+        },
+      ],
+      links: expect.arrayContaining([
+        { text: expect.any(String), url: expect.any(String) },
+      ]),
+    });
+  });
+
+  it("returns the verdict and references of a fact check", async () => {
+    const { client } = await connect();
+    const result = await callStructured(client, "fact-check", {
+      statement: "The sky is blue",
+    });
+    expect(result.structuredContent).toMatchObject({
+      statement: "The sky is blue",
+      result: false,
+      factuality: 0.21,
+      references: [
+        {
+          url: "https://example.com/evidence/1",
+          key_quote: "Quote 1 about The sky is blue",
+          supportive: false,
+        },
+        expect.anything(),
+        expect.anything(),
+      ],
+    });
+  });
+
+  it("returns one verdict per claim in batch mode", async () => {
+    const { client } = await connect();
+    const result = await callStructured(client, "fact-check", {
+      statement: "Water is wet. Fire is cold. See mock-status-400 here.",
+      batch: true,
+    });
+    expect(result.structuredContent).toEqual({
+      statement: "Water is wet. Fire is cold. See mock-status-400 here.",
+      claims: [
+        expect.objectContaining({ claim: "Water is wet.", result: true }),
+        expect.objectContaining({ claim: "Fire is cold.", factuality: 0.61 }),
+        {
+          claim: "See mock-status-400 here.",
+          error: expect.stringContaining("400"),
+        },
+      ],
+    });
+  });
+
+  it("omits structured content from errors", async () => {
+    const { client } = await connect();
+    const result = await callStructured(client, "read-webpage", {
+      url: "https://example.com/mock-status-503",
+    });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
+
+describe("URL policy", () => {
+  it("refuses to read private addresses", async () => {
+    const { client } = await connect();
+    await expect(
+      callTool(client, "read-webpage", {
+        url: "http://169.254.169.254/latest/meta-data/",
+      })
+    ).resolves.toEqual({
+      isError: true,
+      texts: [
+        `Reading webpage failed [policy_violation]: Refusing to read http://169.254.169.254/latest/meta-data/: 169.254.169.254 is not a public address
+The server's URL policy does not allow this URL; use another source. Retrying will not help.`,
+        "Jina tokens used: 0 (session total: 0)",
+      ],
+    });
+  });
+
+  it("refuses domains outside the allow list", async () => {
+    const { client } = await connect({ JINA_URL_ALLOWLIST: "docs.dev" });
+    const { isError, texts } = await callTool(client, "read-webpage", {
+      url: "https://example.com/page",
+    });
+    expect(isError).toBe(true);
+    expect(texts[0]).toContain("example.com is not on the allow list");
+  });
+
+  it("drops denied search results and refuses denied sites", async () => {
+    const { client } = await connect({ JINA_URL_DENYLIST: "example.com" });
+    await expect(
+      callTool(client, "search", { query: "vector databases" })
+    ).resolves.toMatchObject({
+      isError: false,
+      texts: [
+        "No search results found.",
+        expect.stringMatching(/^Jina tokens used: /),
+      ],
+    });
+    const { isError, texts } = await callTool(client, "search", {
+      query: "vector databases",
+      site: "docs.example.com",
+    });
+    expect(isError).toBe(true);
+    expect(texts[0]).toContain(
+      "Refusing to search docs.example.com: docs.example.com is on the deny list"
+    );
+  });
+});
+
+describe("search", () => {
+  it("numbers results and selects their relevant content", async () => {
+    const { client } = await connect();
+    const result = (n: number) => `Result ${n}:
+Title: Result ${n} for vector databases
+URL: https://example.com/vector-databases/${n}
+Relevant Content:
+vector databases
+
+Result ${n} for "vector databases" from the mock Jina Search API. It discusses vector databases in deterministic fixture text.
+---`;
+    await expect(
+      callTool(client, "search", { query: "vector databases", count: 2 })
+    ).resolves.toEqual({
+      isError: false,
+      texts: [
+        `${result(1)}\n\n${result(2)}`,
+        "Jina tokens used: 152 (session total: 152)",
+      ],
+    });
+  });
+
+  it("continues numbering on later pages", async () => {
+    const { client } = await connect();
+    const { texts } = await callTool(client, "search", {
+      query: "vector databases",
+      count: 2,
+      page: 2,
+    });
+    expect(texts[0]).toMatch(/^Result 3:\n/);
+    expect(texts[0]).toContain("\n\nResult 4:\n");
+  });
+
+  it("ranks with keywords and embeddings combined", async () => {
+    const { client, context } = await connect();
+    const { isError, texts } = await callTool(client, "search", {
+      query: "vector databases",
+      count: 2,
+      ranking: "hybrid",
+      fusion: "weighted",
+      semantic_weight: 0.7,
+      top_k: 1,
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toMatch(/^Result 1:\n/);
+    expect(texts[0]).toContain("\n\nResult 2:\n");
+    expect(context.metrics.jinaRequests.render().join("\n")).toContain(
+      'endpoint="embeddings"'
+    );
+    expect(context.metrics.jinaRequests.render().join("\n")).not.toContain(
+      'endpoint="rerank"'
+    );
+  });
+
+  it("rejects an invalid site restriction", async () => {
+    const { client } = await connect();
+    await expect(
+      callTool(client, "search", { query: "x", site: "not a domain" })
+    ).resolves.toEqual({
+      isError: true,
+      texts: [
+        `Search failed [invalid_input]: Invalid site restriction: "not a domain".
+Fix the arguments before trying again.`,
+        "Jina tokens used: 0 (session total: 0)",
+      ],
+    });
+  });
+
+  it("calibrates token counts with one Segmenter call per search", async () => {
+    const { client, context } = await connect({ JINA_SEGMENTER: "on" });
+    await callTool(client, "search", { query: "vector databases", count: 3 });
+    expect(context.metrics.render()).toContain(
+      'jina_mcp_jina_request_duration_seconds_count{endpoint="segmenter",status="200"} 1'
+    );
+  });
+});
+
+describe("fact-check", () => {
+  it("formats the verdict and references", async () => {
+    const { client } = await connect();
+    await expect(
+      callTool(client, "fact-check", { statement: "The sky is blue" })
+    ).resolves.toEqual({
+      isError: false,
+      texts: [
+        `Statement: "The sky is blue"
+Result: Likely False
+Factuality: 0.21
+Supporting references: 1
+Contradicting references: 2
+Reason: Mock grounding of "The sky is blue" with factuality 0.21.
+
+References:
+Reference 1:
+  URL: https://example.com/evidence/1
+  Quote: "Quote 1 about The sky is blue"
+  Supportive: false
+Reference 2:
+  URL: https://example.com/evidence/2
+  Quote: "Quote 2 about The sky is blue"
+  Supportive: true
+Reference 3:
+  URL: https://example.com/evidence/3
+  Quote: "Quote 3 about The sky is blue"
+  Supportive: false`,
+        "Jina tokens used: 400 (session total: 400)",
+      ],
+    });
+  });
+
+  it("checks claims separately in batch mode", async () => {
+    const { client } = await connect();
+    await expect(
+      callTool(client, "fact-check", {
+        statement: "Water is wet. Fire is cold.",
+        batch: true,
+      })
+    ).resolves.toEqual({
+      isError: false,
+      texts: [
+        `| # | Claim | Result | Factuality | Supporting | Contradicting |
+|---|-------|--------|------------|------------|---------------|
+| 1 | Water is wet. | Likely True | 0.83 | 2 | 1 |
+| 2 | Fire is cold. | Likely True | 0.61 | 1 | 2 |
+
+Claim 1: Mock grounding of "Water is wet." with factuality 0.83.
+Claim 2: Mock grounding of "Fire is cold." with factuality 0.61.`,
+        "Jina tokens used: 800 (session total: 800)",
+      ],
+    });
+  });
+});
+
+describe("similarity and embed", () => {
+  it("prints the similarity matrix", async () => {
+    const { client } = await connect();
+    await expect(
+      callTool(client, "similarity", { texts: ["red apple", "green apple"] })
+    ).resolves.toEqual({
+      isError: false,
+      texts: [
+        `Texts:
+1: red apple
+2: green apple
+
+Similarity matrix:
+|   | 1 | 2 |
+|---|---|---|
+| 1 | 1.000 | 0.500 |
+| 2 | 0.500 | 1.000 |`,
+        "Jina tokens used: 6 (session total: 6)",
+      ],
+    });
+  });
+
+  it("returns embeddings as JSON", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "embed", {
+      texts: ["one", "two"],
+      dimensions: 32,
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toBe(
+      "Embedded 2 texts with jina-embeddings-v3 (task: default, dimensions: 32)."
+    );
+    const embeddings = JSON.parse(texts[1]);
+    expect(embeddings).toHaveLength(2);
+    expect(embeddings[0]).toHaveLength(32);
+  });
+
+  it("rejects empty texts", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "embed", {
+      texts: ["one", ""],
+    });
+    expect(isError).toBe(true);
+    expect(texts[0]).toMatch(
+      /^Embedding failed \[invalid_input\]: Text 2 is empty\.\n/
+    );
+  });
+});
+
+describe("usage budgets", () => {
+  it("refuses calls once the session budget is used up", async () => {
+    const { client } = await connect({ JINA_SESSION_TOKEN_BUDGET: "100" });
+    const first = await callTool(client, "fact-check", {
+      statement: "The sky is blue",
+    });
+    expect(first.isError).toBe(false);
+    await expect(
+      callTool(client, "fact-check", { statement: "The sky is blue" })
+    ).resolves.toEqual({
+      isError: true,
+      texts: [
+        `fact-check failed [budget_exceeded]: This session's Jina token budget of 100 tokens has been used up (400 used). Start a new session or ask the operator to raise the budget.
+Retrying will not help until the budget is raised.`,
+      ],
+    });
+  });
+
+  it("reports usage per tool and endpoint", async () => {
+    const { client } = await connect();
+    await callTool(client, "fact-check", { statement: "The sky is blue" });
+    await expect(callTool(client, "usage", {})).resolves.toEqual({
+      isError: false,
+      texts: [
+        `Session tokens: 400 (budget: unlimited)
+By tool:
+  fact-check: 400
+By endpoint:
+  grounding: 400
+
+Server-wide tokens: 400 (budget: unlimited)`,
+      ],
+    });
+  });
+
+  it("bills notebook indexing to the session, not to the call", async () => {
+    const { client, context } = await connect({ JINA_NOTEBOOK: "on" });
+    const { texts } = await callTool(client, "read-webpage", {
+      url: "https://example.com/solar-panels",
+    });
+    const footer = texts[texts.length - 1].match(
+      /Jina tokens used: (\d+) \(session total: \d+\)$/
+    );
+    await (await context.notebooks.get(STDIO_SESSION_ID)).settled();
+    const { byTool } = context.usage.session(STDIO_SESSION_ID);
+    expect(byTool["read-webpage"]).toBe(Number(footer![1]));
+    expect(byTool["notebook-index"]).toBeGreaterThan(0);
+  });
+});
+
+describe("metrics", () => {
+  it("counts tool calls by outcome and Jina requests by status", async () => {
+    const { client, context } = await connect();
+    await callTool(client, "fact-check", { statement: "The sky is blue" });
+    await callTool(client, "read-webpage", {
+      url: "https://example.com/mock-status-503",
+    });
+    await callTool(client, "usage", {});
+    const { toolCalls, tokens } = context.metrics;
+    expect(toolCalls.get({ tool: "fact-check", outcome: "success" })).toBe(1);
+    expect(toolCalls.get({ tool: "read-webpage", outcome: "error" })).toBe(1);
+    expect(toolCalls.get({ tool: "usage", outcome: "success" })).toBe(1);
+    expect(tokens.get({ endpoint: "grounding" })).toBe(400);
+    const text = context.metrics.render();
+    expect(text).toContain(
+      'jina_mcp_jina_request_duration_seconds_count{endpoint="reader",status="503"} 1'
+    );
+    expect(text).toContain(
+      'jina_mcp_cache_lookups_total{namespace="grounding",result="miss"} 1'
+    );
+  });
+});
+
+describe("logging", () => {
+  function collectLogs(client: Client): LoggingMessageNotification["params"][] {
+    const messages: LoggingMessageNotification["params"][] = [];
+    client.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (notification) => {
+        messages.push(notification.params);
+      }
+    );
+    return messages;
+  }
+
+  it("forwards a session's logs once its client sets a level", async () => {
+    const { client } = await connect();
+    const messages = collectLogs(client);
+    const url = "https://example.com/mock-status-503";
+    await callTool(client, "read-webpage", { url });
+    expect(messages).toEqual([]);
+
+    await client.setLoggingLevel("warning");
+    await callTool(client, "read-webpage", { url });
+    expect(messages).toEqual([
+      {
+        level: "warning",
+        logger: "jina-mcp",
+        data: expect.objectContaining({
+          message: expect.stringMatching(/^Attempt 1 failed for /),
+          tool: "read-webpage",
+          requestId: expect.anything(),
+          endpoint: "reader",
+        }),
+      },
+      {
+        level: "error",
+        logger: "jina-mcp",
+        data: expect.objectContaining({
+          message: "Error executing read-webpage tool",
+          tool: "read-webpage",
+        }),
+      },
+    ]);
+  });
+});
+
+describe("notebook", () => {
+  it("finds chunks of pages read in the session", async () => {
+    const { client } = await connect({ JINA_NOTEBOOK: "on" });
+    await callTool(client, "read-webpage", {
+      url: "https://example.com/solar-panels",
+    });
+    const { isError, texts } = await callTool(client, "notebook-query", {
+      query: "solar panels",
+      top_k: 1,
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toMatch(
+      /^\[1\] Mock page: solar panels\nURL: https:\/\/example\.com\/solar-panels\nScore: \d\.\d{3}\n/
+    );
+  });
+
+  it("explains that an empty notebook has nothing to search", async () => {
+    const { client } = await connect({ JINA_NOTEBOOK: "on" });
+    const { texts } = await callTool(client, "notebook-query", {
+      query: "anything",
+    });
+    expect(texts[0]).toMatch(
+      /^The notebook is empty\. Use read-webpage or search first\./
+    );
+  });
+
+  it("does not index pages unless turned on", async () => {
+    const { client } = await connect({ JINA_NOTEBOOK: undefined });
+    await callTool(client, "read-webpage", {
+      url: "https://example.com/solar-panels",
+    });
+    const { texts } = await callTool(client, "notebook-query", {
+      query: "solar panels",
+    });
+    expect(texts[0]).toMatch(
+      /^The notebook is empty because this server does not index pages/
+    );
+  });
+});
+
+describe("deep-research", () => {
+  it("cites the pages it read", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "deep-research", {
+      question: "How do heat pumps work?",
+      depth: 1,
+      breadth: 2,
+      top_k: 3,
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toContain("https://example.com/how-do-heat-pumps-work/1");
+    expect(texts[0]).toMatch(/\[1\]/);
+  });
+});
+
+describe("read-webpages", () => {
+  it("reads each URL once and ranks chunks per page", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "read-webpages", {
+      urls: [
+        "https://example.com/solar",
+        "https://example.com/wind",
+        "https://example.com/solar#panels",
+      ],
+      query: "renewable energy",
+      top_k: 1,
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toMatch(
+      /^Query: renewable energy\nRead 2 of 3 URLs \(1 duplicates skipped\)\./
+    );
+    expect(texts[0]).toContain(
+      "[1] Title: Mock page: solar\nURL: https://example.com/solar\nFull content: jina://page/https%3A%2F%2Fexample.com%2Fsolar"
+    );
+    expect(texts[0]).toContain("[2] Title: Mock page: wind");
+  });
+
+  it("ranks chunks across pages with the global scope", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "read-webpages", {
+      urls: ["https://example.com/solar", "https://example.com/wind"],
+      query: "wind",
+      scope: "global",
+      top_k: 2,
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toContain("Relevant Content:\n[");
+    expect(texts[0]).toContain(
+      "Pages:\n[1] Mock page: solar - https://example.com/solar (jina://page/https%3A%2F%2Fexample.com%2Fsolar)\n[2] Mock page: wind - https://example.com/wind"
+    );
+  });
+
+  it("lists the URLs that could not be read without failing the batch", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "read-webpages", {
+      urls: [
+        "https://example.com/solar",
+        "https://example.com/mock-status-503",
+        "ftp://example.com/file",
+      ],
+      query: "solar",
+    });
+    expect(isError).toBe(false);
+    expect(texts[0]).toContain("Read 1 of 3 URLs.");
+    expect(texts[0]).toContain(
+      'URLs that could not be read:\n- ftp://example.com/file: Unsupported URL scheme "ftp:"; only http and https URLs can be read\n- https://example.com/mock-status-503: Jina reader API returned 503'
+    );
+  });
+
+  it("fails when no URL could be read", async () => {
+    const { client } = await connect();
+    const { isError, texts } = await callTool(client, "read-webpages", {
+      urls: ["not a url"],
+      query: "anything",
+    });
+    expect(isError).toBe(true);
+    expect(texts[0]).toContain("- not a url: Invalid URL");
+  });
+});
+
+describe("resources", () => {
+  it("lists and reads pages fetched in the session", async () => {
+    const { client } = await connect();
+    const url = "https://example.com/guide";
+    const listChanged = new Promise<void>((resolve) =>
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+        resolve()
+      )
+    );
+    await callTool(client, "read-webpage", { url });
+    await listChanged;
+
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      expect.objectContaining({
+        uri: pageUri(url),
+        name: "Mock page: guide",
+        mimeType: "text/markdown",
+      }),
+    ]);
+
+    const { contents } = await client.readResource({ uri: pageUri(url) });
+    const [page] = contents as TextResourceContents[];
+    expect(page.mimeType).toBe("text/markdown");
+    expect(page.text).toMatch(
+      /^# Mock page: guide\n\nURL: https:\/\/example\.com\/guide\n\n# Mock page: guide\n/
+    );
+  });
+
+  it("reads raw search results", async () => {
+    const { client } = await connect();
+    const { contents } = await client.readResource({
+      uri: "jina://search/solar%20power",
+    });
+    const [results] = contents as TextResourceContents[];
+    expect(results.mimeType).toBe("application/json");
+    expect(JSON.parse(results.text)[0].title).toBe("Result 1 for solar power");
+  });
+});
+
+describe("prompts", () => {
+  it("fills in the research prompt", async () => {
+    const { client } = await connect();
+    const { messages } = await client.getPrompt({
+      name: "research",
+      arguments: { question: "Why is the sky blue?", sources: "2" },
+    });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe("user");
+    expect(messages[0].content).toMatchObject({ type: "text" });
+    expect(JSON.stringify(messages[0].content)).toContain(
+      "Why is the sky blue?"
+    );
+  });
+});
@@ -0,0 +1,652 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CallToolResult,
+  LoggingMessageNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { HttpAuth, createHttpAuth } from "../src/auth.js";
+import { MockJinaServer, startMockJina } from "../src/mockJina.js";
+import { SessionRegistry } from "../src/sessions.js";
+import { CLIENT_KEY_HEADER, createHttpApp } from "../src/transports.js";
+import {
+  Listening,
+  StubJina,
+  listen,
+  startStubJina,
+  testContext,
+} from "./helpers.js";
+
+let mock: MockJinaServer;
+beforeAll(async () => {
+  mock = await startMockJina();
+});
+afterAll(() => mock.close());
+
+let http: Listening;
+afterEach(() => http.close());
+
+async function serve(
+  mode: "sse" | "http",
+  options: {
+    env?: NodeJS.ProcessEnv;
+    auth?: HttpAuth;
+    urls?: StubJina["urls"];
+    sessions?: SessionRegistry<any>;
+  } = {}
+): Promise<string> {
+  const context = testContext(options.urls ?? mock.urls, options.env);
+  http = await listen(
+    createHttpApp(mode, context, {
+      auth: options.auth,
+      sessions: options.sessions,
+    })
+  );
+  return http.url;
+}
+
+/** Connect a Streamable HTTP client sending `headers` with every request. */
+async function connectHttp(
+  url: string,
+  headers: Record<string, string>
+): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(
+    new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+      requestInit: { headers },
+    })
+  );
+  return client;
+}
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+function post(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Wait until `check` passes, for effects of a closed connection. */
+async function eventually(check: () => Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 50; i++) {
+    if (await check()) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error("Condition not met in time");
+}
+
+describe("SSE transport", () => {
+  it("serves a client end to end", async () => {
+    const url = await serve("sse");
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`${url}/sse`)));
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("read-webpage");
+    await client.close();
+  });
+
+  it("requires a sessionId on /messages", async () => {
+    const url = await serve("sse");
+    const response = await post(`${url}/messages`, initialize);
+    expect(response.status).toBe(400);
+    await expect(response.text()).resolves.toBe(
+      "Missing sessionId query parameter"
+    );
+  });
+
+  it("rejects unknown sessions", async () => {
+    const url = await serve("sse");
+    const response = await post(
+      `${url}/messages?sessionId=unknown`,
+      initialize
+    );
+    expect(response.status).toBe(404);
+    await expect(response.text()).resolves.toBe(
+      "No active SSE connection found for this sessionId"
+    );
+  });
+
+  it("forgets a session once its stream closes", async () => {
+    const url = await serve("sse");
+    const controller = new AbortController();
+    const stream = await fetch(`${url}/sse`, { signal: controller.signal });
+    const reader = stream.body!.getReader();
+    let received = "";
+    while (!received.includes("\n\n")) {
+      const { value } = await reader.read();
+      received += new TextDecoder().decode(value);
+    }
+    const endpoint = received.match(/data: (\S+)/)![1];
+    expect(endpoint).toMatch(/^\/messages\?sessionId=[\w-]+$/);
+
+    const accepted = await post(`${url}${endpoint}`, initialize);
+    expect(accepted.status).toBe(202);
+
+    controller.abort();
+    await eventually(
+      async () => (await post(`${url}${endpoint}`, initialize)).status === 404
+    );
+  });
+
+  it("aborts in-flight Jina requests once the stream closes", async () => {
+    let aborted = false;
+    const stub = await startStubJina((_req, res) => {
+      // Never answers, the request only ends when the server aborts it
+      res.on("close", () => (aborted = true));
+    });
+    try {
+      const url = await serve("sse", { urls: stub.urls });
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(new SSEClientTransport(new URL(`${url}/sse`)));
+      const call = client.callTool({
+        name: "fact-check",
+        arguments: { statement: "The sky is blue" },
+      });
+      call.catch(() => {});
+      await eventually(async () => stub.requests.length === 1);
+
+      await client.close();
+      await eventually(async () => aborted);
+      expect(stub.requests).toHaveLength(1);
+    } finally {
+      await stub.close();
+    }
+  });
+});
+
+describe("Streamable HTTP transport", () => {
+  it("serves a client end to end and terminates the session", async () => {
+    const url = await serve("http");
+    const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`));
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(transport);
+    const sessionId = transport.sessionId!;
+    expect(sessionId).toBeDefined();
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("search");
+
+    await transport.terminateSession();
+    await client.close();
+    const response = await post(
+      `${url}/mcp`,
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "mcp-session-id": sessionId, "mcp-protocol-version": "2025-03-26" }
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it("requires an initialize request to start a session", async () => {
+    const url = await serve("http");
+    const response = await post(`${url}/mcp`, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/list",
+    });
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: "Bad Request: No valid session ID provided",
+      },
+      id: null,
+    });
+  });
+
+  it("rejects unknown sessions", async () => {
+    const url = await serve("http");
+    const response = await post(
+      `${url}/mcp`,
+      { jsonrpc: "2.0", id: 1, method: "tools/list" },
+      { "mcp-session-id": "unknown" }
+    );
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: "Session not found" },
+      id: null,
+    });
+  });
+
+  it("describes the endpoint at the root", async () => {
+    const url = await serve("http");
+    const response = await fetch(url);
+    await expect(response.text()).resolves.toBe(
+      "MCP Server with Jina Tools is running. Connect to /mcp"
+    );
+  });
+});
+
+describe("bearer authentication", () => {
+  const tokenAuth = () =>
+    createHttpAuth(
+      { tokens: ["secret-token"], oauth: undefined, serverUrl: undefined },
+      new URL("http://localhost/mcp")
+    );
+
+  it("rejects requests without a valid token", async () => {
+    const url = await serve("http", { auth: await tokenAuth() });
+    const missing = await post(`${url}/mcp`, initialize);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toMatch(
+      /^Bearer error="invalid_token"/
+    );
+    const wrong = await post(`${url}/mcp`, initialize, {
+      Authorization: "Bearer wrong-token",
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("serves clients presenting a listed token", async () => {
+    const url = await serve("http", { auth: await tokenAuth() });
+    const client = await connectHttp(url, {
+      Authorization: "Bearer secret-token",
+    });
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+    await client.close();
+  });
+
+  it("protects the SSE endpoints but not the root", async () => {
+    const url = await serve("sse", { auth: await tokenAuth() });
+    expect((await fetch(`${url}/sse`)).status).toBe(401);
+    expect((await post(`${url}/messages?sessionId=x`, initialize)).status).toBe(
+      401
+    );
+    expect((await fetch(url)).status).toBe(200);
+  });
+
+  it("protects metrics but not the health probes", async () => {
+    const url = await serve("http", { auth: await tokenAuth() });
+    expect((await fetch(`${url}/metrics`)).status).toBe(401);
+    const metrics = await fetch(`${url}/metrics`, {
+      headers: { Authorization: "Bearer secret-token" },
+    });
+    expect(metrics.status).toBe(200);
+    expect((await fetch(`${url}/healthz`)).status).toBe(200);
+    expect((await fetch(`${url}/readyz`)).status).toBe(200);
+  });
+});
+
+describe("client-supplied Jina keys", () => {
+  let stub: StubJina;
+  afterEach(() => stub?.close());
+
+  /** A Jina stub answering fact checks, recording the key each request used. */
+  async function startGrounding(): Promise<StubJina> {
+    stub = await startStubJina((_req, res) => {
+      res.json({
+        code: 200,
+        status: 20000,
+        data: {
+          factuality: 1,
+          result: true,
+          reason: "Stub",
+          references: [],
+          usage: { tokens: 10 },
+        },
+      });
+    });
+    return stub;
+  }
+
+  async function factCheck(client: Client): Promise<CallToolResult> {
+    return (await client.callTool({
+      name: "fact-check",
+      arguments: { statement: "The sky is blue" },
+    })) as CallToolResult;
+  }
+
+  it("bills each session to the key its client sent", async () => {
+    const { urls, requests } = await startGrounding();
+    const url = await serve("http", { urls });
+    const teamA = await connectHttp(url, { [CLIENT_KEY_HEADER]: "key-a" });
+    const server = await connectHttp(url, {});
+    await factCheck(teamA);
+    await factCheck(server);
+    expect(requests.map((r) => r.headers.authorization)).toEqual([
+      "Bearer key-a",
+      "Bearer test-key",
+    ]);
+    await teamA.close();
+    await server.close();
+  });
+
+  it("keeps client-key usage out of the global budget", async () => {
+    const { urls } = await startGrounding();
+    const url = await serve("http", {
+      urls,
+      env: { JINA_GLOBAL_TOKEN_BUDGET: "10" },
+    });
+    const teamA = await connectHttp(url, { [CLIENT_KEY_HEADER]: "key-a" });
+    const server = await connectHttp(url, {});
+    expect((await factCheck(teamA)).isError).toBeFalsy();
+    expect((await factCheck(server)).isError).toBeFalsy();
+    expect((await factCheck(server)).isError).toBe(true);
+    expect((await factCheck(teamA)).isError).toBeFalsy();
+    await teamA.close();
+    await server.close();
+  });
+
+  it("holds client-key sessions to the session budget", async () => {
+    const { urls } = await startGrounding();
+    const url = await serve("http", {
+      urls,
+      env: { JINA_SESSION_TOKEN_BUDGET: "10" },
+    });
+    const teamA = await connectHttp(url, { [CLIENT_KEY_HEADER]: "key-a" });
+    expect((await factCheck(teamA)).isError).toBeFalsy();
+    const refused = await factCheck(teamA);
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0]).toMatchObject({
+      text: expect.stringContaining("This session's Jina token budget"),
+    });
+    await teamA.close();
+  });
+
+  it("requires a key from every client in require mode", async () => {
+    const { urls, requests } = await startGrounding();
+    const url = await serve("http", {
+      urls,
+      env: { JINA_API_KEY: "", JINA_CLIENT_KEYS: "require" },
+    });
+    const response = await post(`${url}/mcp`, initialize);
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.toMatchObject({
+      error: {
+        message: `Missing ${CLIENT_KEY_HEADER} header: this server requires each client to supply its own Jina API key`,
+      },
+    });
+
+    const client = await connectHttp(url, { [CLIENT_KEY_HEADER]: "key-b" });
+    await factCheck(client);
+    expect(requests[0].headers.authorization).toBe("Bearer key-b");
+    await client.close();
+  });
+
+  it("refuses client keys when they are turned off", async () => {
+    const url = await serve("sse", { env: { JINA_CLIENT_KEYS: "off" } });
+    const response = await fetch(`${url}/sse`, {
+      headers: { [CLIENT_KEY_HEADER]: "key-c" },
+    });
+    expect(response.status).toBe(400);
+    await expect(response.text()).resolves.toBe(
+      "This server does not accept client-supplied Jina API keys"
+    );
+  });
+});
+
+describe("session lifecycle", () => {
+  let stub: StubJina | undefined;
+  afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+  });
+
+  it("turns new sessions away at the limit with a 503", async () => {
+    const url = await serve("http", { env: { MCP_MAX_SESSIONS: "1" } });
+    const client = await connectHttp(url, {});
+    const response = await post(`${url}/mcp`, initialize);
+    expect(response.status).toBe(503);
+    expect(response.headers.get("retry-after")).toBe("30");
+    await expect(response.json()).resolves.toMatchObject({
+      error: {
+        code: -32000,
+        message: "Too many active sessions (limit 1); try again later",
+      },
+    });
+    await client.close();
+  });
+
+  it("holds the limit against concurrent initialize requests", async () => {
+    const url = await serve("http", { env: { MCP_MAX_SESSIONS: "1" } });
+    const responses = await Promise.all(
+      Array.from({ length: 5 }, () => post(`${url}/mcp`, initialize))
+    );
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 503, 503, 503, 503,
+    ]);
+    await Promise.all(responses.map((response) => response.body?.cancel()));
+  });
+
+  it("frees the slot of a failed initialize request", async () => {
+    const sessions = new SessionRegistry({ maxSessions: 1, idleTimeoutMs: 0 });
+    const url = await serve("http", { sessions });
+    const close = vi.spyOn(McpServer.prototype, "close");
+    const refused = await post(`${url}/mcp`, initialize, {
+      Accept: "application/json",
+    });
+    expect(refused.status).toBe(406);
+    expect(close).toHaveBeenCalledTimes(1);
+    close.mockRestore();
+    expect(sessions.size).toBe(0);
+    expect(sessions.hasCapacity).toBe(true);
+    const client = await connectHttp(url, {});
+    await client.close();
+  });
+
+  it("limits SSE sessions too", async () => {
+    const url = await serve("sse", { env: { MCP_MAX_SESSIONS: "1" } });
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`${url}/sse`)));
+    const response = await fetch(`${url}/sse`);
+    expect(response.status).toBe(503);
+    await client.close();
+  });
+
+  it("closes sessions that stay idle", async () => {
+    const sessions = new SessionRegistry({
+      maxSessions: 0,
+      idleTimeoutMs: 60_000,
+    });
+    const url = await serve("http", { sessions });
+    const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`));
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(transport);
+    const sessionId = transport.sessionId!;
+
+    expect(sessions.sweep(Date.now() + 59_000)).toEqual([]);
+    expect(sessions.sweep(Date.now() + 60_000)).toEqual([sessionId]);
+    const response = await post(
+      `${url}/mcp`,
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "mcp-session-id": sessionId, "mcp-protocol-version": "2025-03-26" }
+    );
+    expect(response.status).toBe(404);
+    await client.close();
+  });
+
+  it("lets in-flight calls finish before closing sessions on shutdown", async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    stub = await startStubJina(async (_req, res) => {
+      await released;
+      res.json({
+        code: 200,
+        status: 20000,
+        data: {
+          factuality: 1,
+          result: true,
+          reason: "Stub",
+          references: [],
+          usage: { tokens: 10 },
+        },
+      });
+    });
+    const sessions = new SessionRegistry({
+      maxSessions: 0,
+      idleTimeoutMs: 0,
+    });
+    const url = await serve("http", { urls: stub.urls, sessions });
+    const client = await connectHttp(url, {});
+
+    const call = client.callTool({
+      name: "fact-check",
+      arguments: { statement: "The sky is blue" },
+    });
+    await eventually(async () => sessions.pendingRequests === 1);
+    const drained = sessions.drain(5_000);
+
+    const refused = await post(`${url}/mcp`, initialize);
+    expect(refused.status).toBe(503);
+    await expect(refused.json()).resolves.toMatchObject({
+      error: { message: "Server is shutting down" },
+    });
+    const ready = await fetch(`${url}/readyz`);
+    expect(ready.status).toBe(503);
+    await expect(ready.json()).resolves.toMatchObject({ status: "draining" });
+
+    release();
+    const result = (await call) as CallToolResult;
+    expect(result.isError).toBeFalsy();
+    await drained;
+    expect(sessions.size).toBe(0);
+    await client.close();
+  });
+});
+
+describe("health endpoints", () => {
+  it("reports liveness", async () => {
+    const url = await serve("http");
+    const response = await fetch(`${url}/healthz`);
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ status: "ok" });
+  });
+
+  it("reports readiness with the session count", async () => {
+    const url = await serve("sse", { env: { MCP_MAX_SESSIONS: "5" } });
+    const response = await fetch(`${url}/readyz`);
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      status: "ready",
+      sessions: { active: 0, max: 5 },
+    });
+  });
+
+  it("is not ready at the session limit", async () => {
+    const url = await serve("http", { env: { MCP_MAX_SESSIONS: "1" } });
+    const client = await connectHttp(url, {});
+    const response = await fetch(`${url}/readyz`);
+    expect(response.status).toBe(503);
+    await expect(response.json()).resolves.toMatchObject({ status: "full" });
+    await client.close();
+  });
+
+  it("probes Jina when asked to", async () => {
+    const url = await serve("http", { env: { MCP_READINESS_PROBE: "on" } });
+    const response = await fetch(`${url}/readyz`);
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      jina: { reachable: true, failures: [] },
+    });
+  });
+
+  it("is not ready while Jina is unreachable", async () => {
+    const stopped = await startStubJina((_req, res) => res.end());
+    await stopped.close();
+    const url = await serve("http", {
+      urls: stopped.urls,
+      env: { MCP_READINESS_PROBE: "on" },
+    });
+    const response = await fetch(`${url}/readyz`);
+    expect(response.status).toBe(503);
+    const body = await response.json();
+    expect(body.status).toBe("jina_unreachable");
+    expect(body.jina.failures).toEqual([
+      {
+        host: new URL(stopped.url).host,
+        error: expect.stringContaining("ECONNREFUSED"),
+      },
+    ]);
+  });
+});
+
+describe("observability", () => {
+  it("serves Prometheus metrics", async () => {
+    const url = await serve("http");
+    const client = await connectHttp(url, {});
+    await client.callTool({
+      name: "fact-check",
+      arguments: { statement: "The sky is blue" },
+    });
+    const response = await fetch(`${url}/metrics`);
+    expect(response.headers.get("content-type")).toMatch(/^text\/plain/);
+    const text = await response.text();
+    expect(text).toContain(
+      'jina_mcp_tool_calls_total{outcome="success",tool="fact-check"} 1'
+    );
+    expect(text).toContain("jina_mcp_sessions_active 1");
+    await client.close();
+  });
+
+  it("can turn metrics off", async () => {
+    const url = await serve("http", { env: { MCP_METRICS: "off" } });
+    expect((await fetch(`${url}/metrics`)).status).toBe(404);
+  });
+
+  it("forwards logs only to the session they belong to", async () => {
+    const url = await serve("http");
+    const listener = await connectHttp(url, {});
+    const messages: unknown[] = [];
+    listener.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (notification) => {
+        messages.push(notification.params);
+      }
+    );
+    await listener.setLoggingLevel("debug");
+
+    const other = await connectHttp(url, {});
+    await other.callTool({
+      name: "fact-check",
+      arguments: { statement: "The sky is blue" },
+    });
+    expect(messages).toEqual([]);
+
+    await listener.callTool({
+      name: "fact-check",
+      arguments: { statement: "The sky is blue" },
+    });
+    expect(messages).toContainEqual({
+      level: "info",
+      logger: "jina-mcp",
+      data: expect.objectContaining({
+        message: "Executing fact-check tool",
+        statement: "[15 chars]",
+      }),
+    });
+    await listener.close();
+    await other.close();
+  });
+});
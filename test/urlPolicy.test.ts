@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { InvalidInputError, PolicyViolationError } from "../src/errors.js";
+import {
+  UrlPolicy,
+  UrlPolicyOptions,
+  isNonPublicAddress,
+  normalizeUrl,
+} from "../src/urlPolicy.js";
+
+// Resolve names without the network: intranet.example.com is internal
+vi.mock("node:dns/promises", () => ({
+  lookup: async (hostname: string) => {
+    if (hostname === "unresolvable.example.com") throw new Error("ENOTFOUND");
+    return [
+      {
+        address:
+          hostname === "intranet.example.com" ? "10.0.0.5" : "93.184.216.34",
+        family: 4,
+      },
+    ];
+  },
+}));
+
+function policy(options: Partial<UrlPolicyOptions> = {}): UrlPolicy {
+  return new UrlPolicy({
+    allow: [],
+    deny: [],
+    blockPrivate: true,
+    resolveHosts: false,
+    ...options,
+  });
+}
+
+describe("normalizeUrl", () => {
+  it("drops the fragment and lowercases the host", () => {
+    expect(normalizeUrl(" HTTPS://Example.COM/Path?q=1#section ")).toBe(
+      "https://example.com/Path?q=1"
+    );
+  });
+
+  it("rejects invalid URLs and schemes other than http(s)", () => {
+    expect(() => normalizeUrl("not a url")).toThrow(InvalidInputError);
+    expect(() => normalizeUrl("file:///etc/passwd")).toThrow(
+      new PolicyViolationError(
+        'Unsupported URL scheme "file:"; only http and https URLs can be read'
+      )
+    );
+  });
+});
+
+describe("isNonPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:7f00:1",
+  ])("flags %s", (address) => {
+    expect(isNonPublicAddress(address)).toBe(true);
+  });
+
+  it.each(["93.184.216.34", "2606:4700::1111", "example.com"])(
+    "allows %s",
+    (address) => {
+      expect(isNonPublicAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe("UrlPolicy", () => {
+  it("refuses loopback, private and link-local hosts, however they are written", async () => {
+    const urls = [
+      "http://localhost:8080/admin",
+      "http://api.localhost/",
+      "http://2130706433/",
+      "http://0x7f.1/",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://169.254.169.254/latest/meta-data/",
+    ];
+    for (const url of urls) {
+      expect(policy().allows(url)).toBe(false);
+      await expect(policy().check(url)).rejects.toThrow(PolicyViolationError);
+    }
+    expect(policy({ blockPrivate: false }).allows("http://localhost/")).toBe(
+      true
+    );
+  });
+
+  it("applies the deny list over the allow list, including subdomains", async () => {
+    const restricted = policy({
+      allow: ["example.com", "*.Docs.dev."],
+      deny: ["internal.example.com"],
+    });
+    await expect(restricted.check("https://example.com/a#b")).resolves.toBe(
+      "https://example.com/a"
+    );
+    expect(restricted.allows("https://www.example.com/")).toBe(true);
+    expect(restricted.allows("https://api.docs.dev/")).toBe(true);
+    expect(restricted.allows("https://notexample.com/")).toBe(false);
+    await expect(
+      restricted.check("https://a.internal.example.com/")
+    ).rejects.toThrow(
+      "Refusing to read https://a.internal.example.com/: a.internal.example.com is on the deny list"
+    );
+    await expect(restricted.check("https://other.org/")).rejects.toThrow(
+      "other.org is not on the allow list"
+    );
+  });
+
+  it("refuses hostnames resolving to private addresses when configured", async () => {
+    const resolving = policy({ resolveHosts: true });
+    await expect(
+      resolving.check("https://intranet.example.com/wiki")
+    ).rejects.toThrow(
+      "intranet.example.com resolves to 10.0.0.5, which is not a public address"
+    );
+    await expect(resolving.check("https://example.com/")).resolves.toBe(
+      "https://example.com/"
+    );
+    await expect(
+      resolving.check("https://unresolvable.example.com/")
+    ).resolves.toBe("https://unresolvable.example.com/");
+    // Without resolution, names are judged by name only
+    await expect(
+      policy().check("https://intranet.example.com/wiki")
+    ).resolves.toBe("https://intranet.example.com/wiki");
+  });
+});